@@ -5,58 +5,629 @@
 // TYPE DEFINITIONS
 // ============================================================================
 
+type VariantValue = string | boolean;
+
+// Keys follow the configured variant axes, e.g. { weight: "Regular", duotone: false }
+type VariantValues = { [axis: string]: VariantValue };
+
 interface IconVariant {
-  variant: {
-    weight: string;  // "Regular" | "Bold" | "Fill"
-    duotone: boolean;
-  };
+  variant: VariantValues;
   svg: string;
   hash: string;
+  strokeWidth?: number;  // Most common stroke width, present for stroked variants when strokes are preserved
 }
 
 interface IconData {
   name: string;
   tags: string[];
+  category: string;  // Section or frame the icon sits in ("" at the top level of a page)
+  aliases: string[];  // Other names the icon can be found by, e.g. its names before a rename
+  deprecated: boolean;
+  replacement?: string;  // Icon to use instead, when a deprecated icon names one
+  since?: string;  // Library version the icon was introduced in, when known
+  page: string;  // Name of the Figma page the icon was exported from
+  codepoint?: string;  // Icon font codepoint as hex (e.g. "e001"), present when the font is generated
+  hash: string;  // Hash over all variant hashes and the tags
   variants: IconVariant[];
 }
 
 interface IconsExport {
+  $schema: string;  // Path of the JSON Schema shipped next to the export
   schemaVersion: string;
   exportedAt: string;
+  hashAlgorithm: string;  // Algorithm behind every hash, e.g. "sha256"
+  hashLength: number;  // Hex characters each hash is truncated to
+  processing: ProcessingSettings | null;  // Settings the SVGs were made with; null for files older than 4.4.0
   totalIcons: number;
+  variantAxes: VariantAxisSummary[];
+  validation: ValidationReport;
+  errors: ExportIssue[];    // Variants or icons that could not be exported
+  warnings: ExportIssue[];  // Exported, but possibly not as intended
   icons: IconData[];
 }
 
-interface ValidationResult {
-  isValid: boolean;
-  errors: string[];
+// The export options that change a variant's SVG (and so its hash)
+interface ProcessingSettings {
+  optimization: OptimizationSettings;
+  colorization: ColorizationSettings;
+  strokes: StrokeSettings;
+}
+
+interface VariantCollision {
+  variant: string;
+  nodeIds: string[];
+  nodeNames: string[];
+}
+
+interface VariantCompleteness {
+  icon: string;
+  nodeId: string;
+  missing: string[];  // Expected variant keys with no exported variant
+  collisions: VariantCollision[];  // Variant keys more than one component resolved to
+}
+
+interface ExportIssue {
+  nodeId: string;
+  nodeName: string;
+  icon: string;
+  message: string;
+}
+
+type NameConflictStrategy = 'ask' | 'skip' | 'suffix' | 'prefer-set';
+
+// One icon the export will produce: a component set, or loose components sharing a base name
+interface IconSource {
+  kind: 'set' | 'components';
+  baseName: string;
+  name: string;  // Final exported (kebab-case) name
+  node: BaseNode;  // Node used to locate the icon in the canvas
+  components: ComponentNode[];
+}
+
+// Dry-run result shown in the preview gallery
+interface PreviewData {
+  variantKeys: string[];  // Every expected variant, in axis order
+  defaultVariantKey: string;
+  icons: {
+    name: string;
+    nodeId: string;
+    tags: string[];
+    variants: { key: string; svg: string }[];
+    errors: string[];  // Error-level lint findings and export errors
+    warnings: string[];
+  }[];
+}
+
+// One icon in the tag editor
+interface TagTableRow {
+  name: string;
+  nodeId: string;  // Component or component set whose description holds the tags
+  nodeName: string;
+  page: string;
+  tags: string[];
+  fromName: boolean;  // No description yet; the tags were derived from the name
+}
+
+interface TagChange {
+  nodeId: string;
+  tags: string[];
+}
+
+// Metadata edited in the plugin, kept in the plugin data of the icon's component set (or first component)
+interface IconMetadata {
+  category?: string;  // Overrides the section or frame name
+  aliases?: string[];
+  deprecated?: boolean;
+  replacement?: string;
+  since?: string;  // Overrides the version kept from the previous export
+}
+
+// One icon in the metadata editor
+interface MetadataTableRow {
+  name: string;
+  nodeId: string;  // Node whose plugin data holds the metadata
+  nodeName: string;
+  page: string;
+  category: string;  // Derived from the section or frame, used unless overridden
+  metadata: IconMetadata;
+}
+
+interface MetadataChange {
+  nodeId: string;
+  metadata: IconMetadata;
+}
+
+// Outcome of importing an icons-export.json into the current page
+interface ImportReport {
+  created: string[];
+  updated: { name: string; variants: string[] }[];  // Variant keys rebuilt or added (none when only tags or metadata changed)
+  skipped: string[];  // Already up to date
+  failed: { name: string; message: string }[];
+  unknown: { name: string; variants: string[] }[];  // Edited variants whose hashes can't be compared (see matchesProcessingSettings)
+  dropped: string[];  // Icons of the file the migration couldn't read (see migrateIconsExport)
+}
+
+// Stored on components built by an import, so a later import can tell they haven't changed since
+interface ImportRecord {
+  svgHash: string;  // Hash of the SVG the component was built from
+  fingerprint: string;  // Node state right after the import (see getNodeFingerprint)
+}
+
+interface NameConflict {
+  name: string;  // Exported name shared by the sources ("" when the names kebab-case to nothing)
+  sources: { nodeId: string; nodeName: string; page: string; kind: IconSource['kind'] }[];
+}
+
+interface VariantAxisValue {
+  value: VariantValue;
+  aliases?: string[];      // Exact (case-insensitive) matches for Figma property values
+  keywords?: string[];     // Substring matches in property values and component names
+  keywordPriority?: number;  // When keywords of several values match, the highest priority wins (default 0)
+  allowsColor?: boolean;   // Variants with this value may keep fixed hex colors
+}
+
+interface VariantAxis {
+  key: string;             // Property name in IconVariant.variant, e.g. "weight"
+  properties: string[];    // Figma variant property names, checked in priority order
+  values: VariantAxisValue[];  // Allowed values, in sort order
+  defaultValue: VariantValue;
+}
+
+interface VariantAxisSummary {
+  key: string;
+  values: VariantValue[];
+}
+
+interface SvgElement {
+  type: 'element';
+  name: string;
+  attributes: { [name: string]: string };  // Entity-decoded values
+  children: SvgNode[];
+}
+
+interface SvgText {
+  type: 'text';
+  value: string;
+  cdata?: boolean;
+}
+
+type SvgNode = SvgElement | SvgText;
+
+// The parts of JSON Schema (draft 2020-12) the export schema uses
+interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: { [name: string]: JsonSchema };
+  title?: string;
+  type?: string | string[];
+  const?: any;
+  enum?: any[];
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  items?: JsonSchema;
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+type LintSeverity = 'error' | 'warning';
+
+interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check: (root: SvgElement, svg: string, variant: VariantValues, axes: VariantAxis[]) => string[];
+}
+
+interface LintViolation {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+}
+
+interface LintFinding extends LintViolation {
+  icon: string;
+  variant: string;
+}
+
+interface ValidationReport {
+  errors: number;
+  warnings: number;
+  findings: LintFinding[];
+}
+
+type ExportScope = 'page' | 'selection' | 'pages' | 'document';
+
+type OptimizationPassId = 'removeDimensions' | 'removeDefaultAttributes' | 'collapseGroups' | 'roundPrecision' | 'mergePaths';
+
+interface OptimizationSettings {
+  passes: OptimizationPassId[];  // Enabled passes; they always run in OPTIMIZATION_PASSES order
+  precision: number;             // Decimal places kept by the roundPrecision pass
+}
+
+interface OptimizationPass {
+  id: OptimizationPassId;
+  label: string;
+  run: (root: SvgElement, settings: OptimizationSettings) => void;
+}
+
+interface OptimizationStats {
+  bytesBefore: number;  // Raw SVG bytes received from exportAsync
+  bytesAfter: number;   // Bytes written to the export
+  passes: { [id: string]: number };  // Bytes saved per pass
+}
+
+interface ColorizationSettings {
+  enabled: boolean;
+  secondaryLayerName: string;      // Figma layer name (case-insensitive substring) of the duotone layer
+  secondaryColorVariable: string;  // CSS custom property for the secondary color, e.g. "--icon-secondary"
+  secondaryOpacity: number;        // Opacity applied to the secondary layer
+}
+
+interface StrokeSettings {
+  preserve: boolean;  // Keep strokes as strokes (currentColor, normalized caps and joins) instead of expecting outlines
+  linecap: 'butt' | 'round' | 'square';
+  linejoin: 'miter' | 'round' | 'bevel';
+}
+
+interface RasterSettings {
+  enabled: boolean;
+  sizes: number[];   // Icon sizes in px at 1x, e.g. [16, 24, 32, 48]
+  scales: number[];  // Pixel densities, e.g. [1, 2, 3]
+  tint: string | null;  // Hex color every paint is replaced with, or null to keep the design colors
+}
+
+// A variant queued for PNG rendering once the final icon list is known
+interface RasterSource {
+  component: ComponentNode;
+  icon: string;
+  variant: VariantValues;
+  variantKey: string;
+  svg: string;
+}
+
+interface FontSettings {
+  enabled: boolean;
+  variant: string;     // Variant key whose SVGs become glyphs; "" uses the default variant
+  familyName: string;  // Font family and file name, e.g. "stera-icons"
+}
+
+interface ColorizedPaint {
+  element: SvgElement;
+  attribute: 'fill' | 'stroke';
+  color: string;
+  byName: boolean;   // Element or an ancestor matches the secondary layer name
+  opacity: number;   // Effective opacity including ancestors
+}
+
+interface ColorizationNote {
+  icon: string;
+  variant: string;
+  message: string;
+}
+
+interface ExportOptions {
+  format: 'json' | 'zip';  // "zip" bundles icons-export.json with one SVG file per variant
+  previousExport: string | null;  // Raw text of a previous icons-export.json to diff against
+  scope: ExportScope;
+  pageIds: string[];  // Pages to export when scope is "pages"
+  optimization: OptimizationSettings;
+  colorization: ColorizationSettings;
+  strokes: StrokeSettings;
+  strict: boolean;  // Block the download when any error-level lint rule fires
+  completeness: 'report' | 'omit' | 'fail';  // What to do with icons missing or duplicating variants
+  hashLength: number;  // Hex characters SHA-256 hashes are truncated to (8-64)
+  cache: boolean;  // Reuse results of components that haven't changed since they were last exported
+  preview: boolean;  // Dry run: send the processed icons to the gallery instead of downloading
+  excludedIcons: string[];  // Exported names left out of this export (chosen in the gallery)
+  sprite: boolean;  // Add one <symbol> sprite sheet per variant to the bundle (forces "zip")
+  react: boolean;  // Add typed React components to the bundle (forces "zip")
+  android: boolean;  // Add VectorDrawable XML files to the bundle (forces "zip")
+  ios: boolean;  // Add an Xcode asset catalog to the bundle (forces "zip")
+  raster: RasterSettings;  // PNG renders, added to the bundle when enabled (forces "zip")
+  font: FontSettings;  // Icon font files, added to the bundle when enabled (forces "zip")
+  version: string;  // Library version recorded as "since" for icons new in this export
+}
+
+// State shared by every step of a single export run
+interface ExportContext {
+  options: ExportOptions;
+  axes: VariantAxis[];
+  previousExport: IconsExport | null;
+  optimizationStats: OptimizationStats;
+  colorizationNotes: ColorizationNote[];
+  lintFindings: LintFinding[];
+  errors: ExportIssue[];
+  warnings: ExportIssue[];
+  completeness: VariantCompleteness[];
+  mobileAssets: Map<string, MobileVariantAssets>;  // Keyed by "<icon>/<variant-key>"
+  rasterSources: RasterSource[];
+  rasters: ArchiveEntry[];
+  fontFiles: ArchiveEntry[];
+  iconNodes: Map<string, BaseNode>;  // Node each exported icon came from, for post-processing issues
+  cacheKey: string;
+  cacheStats: { cached: number; regenerated: number };
+  progress: ExportProgress;
+}
+
+type ExportPhase = 'processing' | 'rendering' | 'packaging';
+
+// Where a running export is, posted to the UI as structured progress messages
+interface ExportProgress {
+  phase: ExportPhase;
+  done: number;
+  total: number;  // Variants to process, or PNGs to render, in this phase
+  current: string;  // Icon being worked on
+  startedAt: number;  // When the phase started, for the ETA
+  postedAt: number;  // Last post, for throttling
+}
+
+// Processed result of one component, stored in its plugin data so unchanged components skip exportAsync
+interface ExportCacheEntry {
+  cacheKey: string;  // Settings the result was produced with (see getExportCacheKey)
+  fingerprint: string;  // Node state the result was produced from (see getNodeFingerprint)
+  variantKey: string;  // Derived variant, which must still match
+  svg: string;  // Normalized SVG
+  hash: string;
+  stats: OptimizationStats;  // This component's share of the optimization report
+  colorizationNotes: string[];
+  strokeWidth: number | null;  // See IconVariant.strokeWidth
+  strokeNotes: string[];  // Strokes that won't render like they do in Figma
+  incomplete: boolean;  // Raw SVG was missing its closing tag
+}
+
+// Platform conversions of one variant, made while its Figma node is at hand
+interface MobileVariantAssets {
+  vectorDrawable?: string;
+  xcassetSvg?: string;
+  template?: boolean;  // Xcode template rendering (all paints are currentColor)
+}
+
+interface IconRename {
+  from: string;
+  to: string;
+}
+
+interface IconVariantChanges {
+  name: string;
+  changed: string[];  // Variant keys whose hash differs, e.g. "bold-duotone"
+  added: string[];
+  removed: string[];
+}
+
+interface IconTagChanges {
+  name: string;
+  added: string[];
+  removed: string[];
+}
+
+interface ExportChangelog {
+  previousExportedAt: string | null;
+  exportedAt: string;
+  added: string[];
+  removed: string[];
+  renamed: IconRename[];
+  variants: IconVariantChanges[];
+  tags: IconTagChanges[];
+  deprecated: { name: string; replacement: string | null }[];  // Icons deprecated since the previous export
+}
+
+interface ArchiveEntry {
+  path: string;
+  content: string | Uint8Array;
 }
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const SCHEMA_VERSION = "2.0.0";
-const ALLOWED_WEIGHTS = ["Regular", "Bold", "Fill"];
-const DUOTONE_VALUES = [false, true];
+const SCHEMA_VERSION = "4.4.0";
+
+const EXPORT_CACHE_PLUGIN_DATA_KEY = 'exportCache';
+const EXPORT_CACHE_VERSION = 2;  // Bump when processing changes in a way the settings don't capture
+const EXPORT_CACHE_HASH_LENGTH = 32;
+
+// Node properties that affect the exported SVG, read for the cache fingerprint
+const FINGERPRINT_PROPERTIES = [
+  'type', 'name', 'visible', 'opacity', 'blendMode', 'isMask', 'maskType', 'width', 'height', 'relativeTransform',
+  'fills', 'strokes', 'strokeWeight', 'strokeAlign', 'strokeCap', 'strokeJoin', 'strokeMiterLimit', 'dashPattern',
+  'effects', 'cornerRadius', 'topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius',
+  'cornerSmoothing', 'vectorPaths', 'arcData', 'pointCount', 'innerRadius', 'booleanOperation', 'clipsContent',
+  'characters', 'fontName', 'fontSize', 'letterSpacing', 'lineHeight', 'textCase', 'textDecoration'
+];
+
+const HASH_ALGORITHM = 'sha256';
+const MIN_HASH_LENGTH = 8;
+const MAX_HASH_LENGTH = 64;  // Full SHA-256 digest in hex
+
+// First 32 bits of the fractional parts of the square roots of the first 8 primes
+const SHA256_INITIAL_HASH = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+];
+
+// First 32 bits of the fractional parts of the cube roots of the first 64 primes
+const SHA256_ROUND_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
 const REQUIRED_VIEWBOX = "0 0 24 24";
+const MAX_SVG_BYTES = 10 * 1024;
 
 // Shape tags that are considered for deduplication
 const SHAPE_TAGS = new Set([
   'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon'
 ]);
 
+// Containers whose children are referenced (not painted directly) and are never deduplicated
+const REFERENCE_CONTAINER_TAGS = new Set([
+  'defs', 'clippath', 'mask', 'pattern', 'symbol', 'marker', 'lineargradient', 'radialgradient', 'filter'
+]);
+
+// Attributes whose value equals the SVG default and can be dropped
+const DEFAULT_ATTRIBUTE_VALUES: { [name: string]: string } = {
+  'opacity': '1',
+  'fill-opacity': '1',
+  'stroke-opacity': '1',
+  'fill-rule': 'nonzero',
+  'clip-rule': 'nonzero',
+  'stroke': 'none',
+  'stroke-width': '1',
+  'stroke-linecap': 'butt',
+  'stroke-linejoin': 'miter',
+  'stroke-miterlimit': '4'
+};
+
+// Presentation attributes inherited by descendants
+const INHERITED_ATTRIBUTES = new Set([
+  'fill', 'fill-opacity', 'fill-rule', 'clip-rule', 'stroke', 'stroke-opacity', 'stroke-width',
+  'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset', 'color'
+]);
+
+// Geometry attributes rounded by the precision pass (path data and points are handled too)
+const NUMERIC_ATTRIBUTES = new Set([
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'width', 'height', 'stroke-width'
+]);
+
+const DEFAULT_PRECISION = 3;
+const MAX_PRECISION = 8;
+
 // Attributes that suggest styling, references, or hooks and should not be deduplicated
 const RISKY_ATTRIBUTES = new Set([
   'id', 'class', 'style', 'filter', 'mask', 'clip-path', 'clipPath', 'transform'
 ]);
 
 const EXPORT_CONCURRENCY = 4;
-const VARIANT_PROP_PRIORITY = ['Weight', 'Duotone', 'Variant', 'Style', 'Type'];
 const YIELD_FREQUENCY = 5;
+const PROGRESS_INTERVAL_MS = 100;
+
+const PHASE_LABELS: Record<ExportPhase, string> = {
+  processing: 'Processing',
+  rendering: 'Rendering PNGs',
+  packaging: 'Packaging'
+};
 
 const NAME_SEPARATORS = ['/', '=', ' - '];
 
+const VARIANT_AXES_PLUGIN_DATA_KEY = 'variantAxes';
+const NAME_CONFLICT_STRATEGY_PLUGIN_DATA_KEY = 'nameConflictStrategy';
+
+const NAME_CONFLICT_STRATEGIES: NameConflictStrategy[] = ['ask', 'skip', 'suffix', 'prefer-set'];
+const DEFAULT_NAME_CONFLICT_STRATEGY: NameConflictStrategy = 'ask';
+const UNNAMED_ICON_NAME = 'unnamed';
+
+// Matches the Stera library: Weight (Regular/Bold/Fill) × Duotone (false/true).
+// Legacy names mixing keywords ("Line Bold") resolve bold, then fill, then regular.
+const DEFAULT_VARIANT_AXES: VariantAxis[] = [
+  {
+    key: 'weight',
+    properties: ['Weight', 'Style', 'Variant'],
+    values: [
+      { value: 'Regular', keywords: ['regular', 'line'] },
+      { value: 'Bold', keywords: ['bold'], keywordPriority: 2 },
+      { value: 'Fill', keywords: ['fill'], keywordPriority: 1 }
+    ],
+    defaultValue: 'Regular'
+  },
+  {
+    key: 'duotone',
+    properties: ['Duotone'],
+    values: [
+      { value: false, aliases: ['false', 'no', '0'] },
+      { value: true, aliases: ['true', 'yes', '1'], keywords: ['duotone', 'tone'], allowsColor: true }
+    ],
+    defaultValue: false
+  }
+];
+
+const EXPORT_FILENAME = 'icons-export.json';
+const SCHEMA_FILENAME = 'icons-export.schema.json';
+const MAX_SCHEMA_PROBLEMS_SHOWN = 5;
+const UNKNOWN_EXPORT_DATE = new Date(0).toISOString();  // exportedAt of migrated files that didn't record one
+const ARCHIVE_FILENAME = 'icons-export.zip';
+const MAX_ZIP_ENTRIES = 0xffff;
+const MAX_ZIP_BYTES = 0xffffffff;
+const SVG_FOLDER = 'svg';
+const SPRITE_FOLDER = 'sprite';
+const SPRITE_FILENAME = 'sprite.svg';
+const REACT_FOLDER = 'react';
+const ANDROID_FOLDER = 'android';
+const IOS_FOLDER = 'ios';
+const XCASSETS_NAME = 'Icons.xcassets';
+const PNG_FOLDER = 'png';
+
+const MAX_RASTER_SIZE = 1024;
+const MAX_RASTER_SCALE = 4;
+const RASTER_SCRATCH_PLUGIN_DATA_KEY = 'rasterScratch';  // Marks the frame tinted PNGs are rendered in
+const RASTER_SCRATCH_OFFSET = 100000;  // How far the frame sits to the left of the page's content
+
+const FONT_FOLDER = 'font';
+const FONT_CODEPOINTS_PLUGIN_DATA_KEY = 'fontCodepoints';
+const ICON_METADATA_PLUGIN_DATA_KEY = 'iconMetadata';
+const IMPORT_RECORD_PLUGIN_DATA_KEY = 'importRecord';
+const IMPORT_ICON_SPACING = 48;
+const IMPORT_VARIANT_SPACING = 16;
+const FONT_UNITS_PER_EM = 960;  // 40 units per pixel of a 24px icon
+const FONT_FIRST_CODEPOINT = 0xe000;
+const FONT_LAST_CODEPOINT = 0xf8ff;
+const CHANGELOG_MARKDOWN_FILENAME = 'CHANGELOG.md';
+const CHANGELOG_JSON_FILENAME = 'changelog.json';
+
+const EXPORT_SCOPES: ExportScope[] = ['page', 'selection', 'pages', 'document'];
+
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'json',
+  previousExport: null,
+  scope: 'page',
+  pageIds: [],
+  optimization: {
+    passes: ['removeDimensions', 'removeDefaultAttributes', 'collapseGroups', 'roundPrecision'],
+    precision: DEFAULT_PRECISION
+  },
+  colorization: {
+    enabled: false,
+    secondaryLayerName: 'secondary',
+    secondaryColorVariable: '--icon-secondary',
+    secondaryOpacity: 0.2
+  },
+  strokes: {
+    preserve: false,
+    linecap: 'round',
+    linejoin: 'round'
+  },
+  strict: false,
+  completeness: 'report',
+  hashLength: 16,
+  cache: true,
+  preview: false,
+  excludedIcons: [],
+  sprite: false,
+  react: false,
+  android: false,
+  ios: false,
+  raster: {
+    enabled: false,
+    sizes: [16, 24, 32, 48],
+    scales: [1, 2, 3],
+    tint: null
+  },
+  font: {
+    enabled: false,
+    variant: '',
+    familyName: 'stera-icons'
+  },
+  version: ''
+};
+
 // ============================================================================
 // HELPER UTILITIES
 // ============================================================================
@@ -70,10 +641,40 @@ function extractBaseName(rawName: string): string {
   return rawName.trim();
 }
 
-function deriveVariant(component: ComponentNode, baseName: string): { weight: string; duotone: boolean } {
+/**
+ * Matches a raw string against an axis's allowed values. Exact matches on the
+ * value or its aliases win; otherwise the value whose keyword (or string value)
+ * appears in the string is used, preferring the highest keywordPriority and
+ * then the first in sort order.
+ */
+function matchAxisValue(axis: VariantAxis, raw: string): VariantAxisValue | null {
+  const needle = raw.trim().toLowerCase();
+  if (!needle) return null;
+
+  const exact = axis.values.find(axisValue =>
+    String(axisValue.value).toLowerCase() === needle ||
+    (axisValue.aliases || []).some(alias => alias.toLowerCase() === needle)
+  );
+  if (exact) return exact;
+
+  let best: VariantAxisValue | null = null;
+  for (const axisValue of axis.values) {
+    const keywords = (axisValue.keywords || []).concat(typeof axisValue.value === 'string' ? [axisValue.value] : []);
+    if (!keywords.some(keyword => keyword.length > 0 && needle.includes(keyword.toLowerCase()))) continue;
+    if (!best || (axisValue.keywordPriority || 0) > (best.keywordPriority || 0)) {
+      best = axisValue;
+    }
+  }
+  return best;
+}
+
+function deriveVariant(
+  component: ComponentNode,
+  axes: VariantAxis[],
+  onWarning: (message: string) => void = message => console.warn(message)
+): VariantValues {
   const variantProps = component.variantProperties;
-  let weight = "Regular"; // default
-  let duotone = false; // default
+  const variant: VariantValues = {};
 
   // Helper to normalize property names (case-insensitive)
   const getProp = (props: Record<string, string> | null, propName: string): string | null => {
@@ -87,79 +688,283 @@ function deriveVariant(component: ComponentNode, baseName: string): { weight: st
     return null;
   };
 
-  // Extract weight from variant properties
-  if (variantProps) {
-    const weightValue = getProp(variantProps, 'Weight') || getProp(variantProps, 'Style') || getProp(variantProps, 'Variant');
-    if (weightValue) {
-      const normalizedWeight = weightValue.trim();
-      // Normalize weight values (case-insensitive)
-      if (ALLOWED_WEIGHTS.some(w => w.toLowerCase() === normalizedWeight.toLowerCase())) {
-        weight = ALLOWED_WEIGHTS.find(w => w.toLowerCase() === normalizedWeight.toLowerCase()) || "Regular";
-      } else {
-        // Try to map legacy variant names to weights
-        const lowerValue = normalizedWeight.toLowerCase();
-        if (lowerValue.includes('bold')) {
-          weight = "Bold";
-        } else if (lowerValue.includes('fill')) {
-          weight = "Fill";
-        } else if (lowerValue.includes('regular') || lowerValue.includes('line')) {
-          weight = "Regular";
-        }
+  // The last segment of a separated name ("arrow / Bold") is the most specific
+  const fullName = component.name;
+  let lastPart: string | null = null;
+  for (const separator of NAME_SEPARATORS) {
+    if (fullName.includes(separator)) {
+      const parts = fullName.split(separator);
+      lastPart = parts[parts.length - 1]?.trim() || '';
+      break;
+    }
+  }
+
+  for (const axis of axes) {
+    let matched: VariantAxisValue | null = null;
+    let fromProperty = false;
+
+    // Extract the value from the first variant property that is present
+    for (const propName of axis.properties) {
+      const propValue = getProp(variantProps, propName);
+      if (propValue == null) continue;
+
+      fromProperty = true;
+      matched = matchAxisValue(axis, propValue.toString());
+      if (!matched) {
+        onWarning(`Value "${propValue}" for "${propName}" is not an allowed ${axis.key} (${axis.values.map(v => v.value).join(', ')}); using "${axis.defaultValue}"`);
       }
+      break;
     }
 
-    // Extract duotone from variant properties
-    const duotoneValue = getProp(variantProps, 'Duotone');
-    if (duotoneValue) {
-      const normalizedDuotone = duotoneValue.toString().trim().toLowerCase();
-      duotone = normalizedDuotone === 'true' || normalizedDuotone === 'yes' || normalizedDuotone === '1';
+    // Fallback: Try to extract from component name if variant properties didn't provide a value
+    if (!fromProperty) {
+      matched = (lastPart !== null ? matchAxisValue(axis, lastPart) : null) || matchAxisValue(axis, fullName);
     }
+
+    variant[axis.key] = matched ? matched.value : axis.defaultValue;
   }
 
-  // Fallback: Try to extract from component name if variant properties didn't provide both values
-  if (!variantProps || (!getProp(variantProps, 'Weight') && !getProp(variantProps, 'Duotone'))) {
-    const fullName = component.name;
-    
-    // Check for duotone in name
-    const nameLower = fullName.toLowerCase();
-    if (nameLower.includes('duotone') || nameLower.includes('tone')) {
-      duotone = true;
-    }
-
-    // Check for weight in name
-    if (nameLower.includes('bold')) {
-      weight = "Bold";
-    } else if (nameLower.includes('fill')) {
-      weight = "Fill";
-    } else if (nameLower.includes('regular') || nameLower.includes('line')) {
-      weight = "Regular";
-    }
-
-    // Try parsing from separators
-    for (const separator of NAME_SEPARATORS) {
-      if (fullName.includes(separator)) {
-        const parts = fullName.split(separator);
-        const lastPart = parts[parts.length - 1]?.trim().toLowerCase() || '';
-        
-        // Check for weight
-        if (lastPart.includes('bold')) {
-          weight = "Bold";
-        } else if (lastPart.includes('fill')) {
-          weight = "Fill";
-        } else if (lastPart.includes('regular') || lastPart.includes('line')) {
-          weight = "Regular";
-        }
-        
-        // Check for duotone
-        if (lastPart.includes('duotone') || lastPart.includes('tone')) {
-          duotone = true;
-        }
-        break;
+  return variant;
+}
+
+/**
+ * Compares two variants by the configured axis order and value order
+ */
+function compareVariants(a: VariantValues, b: VariantValues, axes: VariantAxis[]): number {
+  for (const axis of axes) {
+    const indexOf = (value: VariantValue) => {
+      const index = axis.values.findIndex(axisValue => axisValue.value === value);
+      return index === -1 ? 999 : index;
+    };
+    const diff = indexOf(a[axis.key]) - indexOf(b[axis.key]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Lists every combination of axis values, in sort order
+ */
+function getExpectedVariants(axes: VariantAxis[]): VariantValues[] {
+  return axes.reduce<VariantValues[]>((combinations, axis) => {
+    const next: VariantValues[] = [];
+    for (const combination of combinations) {
+      for (const axisValue of axis.values) {
+        next.push({ ...combination, [axis.key]: axisValue.value });
+      }
+    }
+    return next;
+  }, [{}]);
+}
+
+/**
+ * Returns the key of the variant made of each axis's default value (e.g. "regular")
+ */
+function getDefaultVariantKey(axes: VariantAxis[]): string {
+  const defaults: VariantValues = {};
+  axes.forEach(axis => { defaults[axis.key] = axis.defaultValue; });
+  return getVariantKey(defaults, axes);
+}
+
+/**
+ * Returns true when an icon is missing variants or has colliding ones
+ */
+function isIncomplete(completeness: VariantCompleteness): boolean {
+  return completeness.missing.length > 0 || completeness.collisions.length > 0;
+}
+
+/**
+ * Builds the matrix shown in the UI: one column per expected variant, one row per icon
+ */
+function buildCompletenessMatrix(entries: VariantCompleteness[], axes: VariantAxis[]) {
+  const columns = getExpectedVariants(axes).map(variant => getVariantKey(variant, axes));
+  return {
+    columns,
+    icons: entries
+      .slice()
+      .sort((a, b) => a.icon.localeCompare(b.icon))
+      .map(entry => {
+        const collided = new Set(entry.collisions.map(collision => collision.variant));
+        const missing = new Set(entry.missing);
+        return {
+          icon: entry.icon,
+          nodeId: entry.nodeId,
+          complete: !isIncomplete(entry),
+          cells: columns.map(column => collided.has(column) ? 'collision' : missing.has(column) ? 'missing' : 'ok')
+        };
+      })
+  };
+}
+
+/**
+ * Formats a variant for log and error messages, e.g. weight: "Bold", duotone: true
+ */
+function describeVariant(variant: VariantValues): string {
+  return Object.keys(variant)
+    .map(key => `${key}: ${typeof variant[key] === 'string' ? `"${variant[key]}"` : variant[key]}`)
+    .join(', ');
+}
+
+/**
+ * Returns true when any axis value of the variant permits fixed colors (e.g. duotone)
+ */
+function variantAllowsColor(variant: VariantValues, axes: VariantAxis[]): boolean {
+  return axes.some(axis =>
+    axis.values.some(axisValue => axisValue.allowsColor && axisValue.value === variant[axis.key])
+  );
+}
+
+/**
+ * Validates and fills in defaults for a user-defined variant axes config
+ */
+function parseVariantAxes(rawAxes: string): VariantAxis[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(rawAxes);
+  } catch (error) {
+    throw new Error('Variant axes must be valid JSON.');
+  }
+
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('Variant axes must be a non-empty array.');
+  }
+
+  const seenKeys = new Set<string>();
+  const toStringList = (list: any, label: string): string[] => {
+    if (list == null) return [];
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      throw new Error(`${label} must be an array of strings.`);
+    }
+    return list;
+  };
+
+  return parsed.map((rawAxis: any, axisIndex: number): VariantAxis => {
+    if (!rawAxis || typeof rawAxis.key !== 'string' || !rawAxis.key.trim()) {
+      throw new Error(`Axis ${axisIndex + 1} is missing a "key".`);
+    }
+    const key = rawAxis.key.trim();
+    if (seenKeys.has(key)) {
+      throw new Error(`Axis "${key}" is defined more than once.`);
+    }
+    seenKeys.add(key);
+
+    if (!Array.isArray(rawAxis.values) || rawAxis.values.length === 0) {
+      throw new Error(`Axis "${key}" must list at least one value.`);
+    }
+
+    const values: VariantAxisValue[] = rawAxis.values.map((rawValue: any) => {
+      // Allow shorthand: "Bold" instead of { "value": "Bold" }
+      const entry = typeof rawValue === 'object' && rawValue !== null ? rawValue : { value: rawValue };
+      if (typeof entry.value !== 'string' && typeof entry.value !== 'boolean') {
+        throw new Error(`Axis "${key}" values must be strings or booleans.`);
+      }
+      if (entry.keywordPriority !== undefined && !Number.isFinite(entry.keywordPriority)) {
+        throw new Error(`Keyword priority for "${entry.value}" must be a number.`);
       }
+      const axisValue: VariantAxisValue = {
+        value: entry.value,
+        aliases: toStringList(entry.aliases, `Aliases for "${entry.value}"`),
+        keywords: toStringList(entry.keywords, `Keywords for "${entry.value}"`),
+        allowsColor: Boolean(entry.allowsColor)
+      };
+      if (entry.keywordPriority !== undefined) {
+        axisValue.keywordPriority = entry.keywordPriority;
+      }
+      return axisValue;
+    });
+
+    const defaultValue = rawAxis.defaultValue !== undefined ? rawAxis.defaultValue : values[0].value;
+    if (!values.some(axisValue => axisValue.value === defaultValue)) {
+      throw new Error(`Default value for axis "${key}" must be one of its values.`);
     }
+
+    const properties = toStringList(rawAxis.properties, `Properties for "${key}"`);
+    return {
+      key,
+      properties: properties.length > 0 ? properties : [key.charAt(0).toUpperCase() + key.slice(1)],
+      values,
+      defaultValue
+    };
+  });
+}
+
+/**
+ * Loads the variant axes saved on the document, falling back to the defaults
+ */
+function loadVariantAxes(): VariantAxis[] {
+  const saved = figma.root.getPluginData(VARIANT_AXES_PLUGIN_DATA_KEY);
+  if (!saved) return DEFAULT_VARIANT_AXES;
+  try {
+    return parseVariantAxes(saved);
+  } catch (error) {
+    console.warn('Ignoring invalid saved variant axes:', error);
+    return DEFAULT_VARIANT_AXES;
   }
+}
+
+/**
+ * Sends the document's pages to the UI for the "chosen pages" scope
+ */
+function postPages(): void {
+  figma.ui.postMessage({
+    type: 'pages',
+    data: {
+      pages: figma.root.children.map(page => ({ id: page.id, name: page.name })),
+      currentPageId: figma.currentPage.id
+    }
+  });
+}
+
+/**
+ * Sends the available optimization passes to the UI so it can render toggles
+ */
+function postOptimizationPasses(): void {
+  figma.ui.postMessage({
+    type: 'optimization-passes',
+    data: {
+      passes: OPTIMIZATION_PASSES.map(pass => ({
+        id: pass.id,
+        label: pass.label,
+        enabled: DEFAULT_EXPORT_OPTIONS.optimization.passes.includes(pass.id)
+      })),
+      precision: DEFAULT_EXPORT_OPTIONS.optimization.precision
+    }
+  });
+}
+
+/**
+ * Sends the current variant axes config to the UI for editing
+ */
+function postVariantAxes(error?: string): void {
+  const axes = loadVariantAxes();
+  figma.ui.postMessage({
+    type: 'variant-axes',
+    data: {
+      config: JSON.stringify(axes, null, 2),
+      variantKeys: getExpectedVariants(axes).map(variant => getVariantKey(variant, axes)),
+      defaultVariantKey: getDefaultVariantKey(axes),
+      isDefault: !figma.root.getPluginData(VARIANT_AXES_PLUGIN_DATA_KEY),
+      error: error || null
+    }
+  });
+}
+
+/**
+ * Loads the name conflict strategy saved on the document
+ */
+function loadNameConflictStrategy(): NameConflictStrategy {
+  const saved = figma.root.getPluginData(NAME_CONFLICT_STRATEGY_PLUGIN_DATA_KEY) as NameConflictStrategy;
+  return NAME_CONFLICT_STRATEGIES.includes(saved) ? saved : DEFAULT_NAME_CONFLICT_STRATEGY;
+}
 
-  return { weight, duotone };
+/**
+ * Sends the document's name conflict strategy to the UI
+ */
+function postNameConflictStrategy(): void {
+  figma.ui.postMessage({
+    type: 'name-conflict-strategy',
+    data: { strategy: loadNameConflictStrategy() }
+  });
 }
 
 async function mapWithConcurrency<T, R>(
@@ -218,21 +1023,80 @@ function toKebabCase(str: string): string {
 }
 
 /**
- * Generates a stable hash for SVG content using a simple but effective algorithm
- * This provides consistent hashing for diffing and incremental builds
+ * Computes the SHA-256 digest of some bytes as lowercase hex
+ * (crypto.subtle is not available in the plugin sandbox)
  */
-function generateHash(input: string): string {
-  let hash = 0;
-  if (input.length === 0) return hash.toString(16);
-  
-  for (let i = 0; i < input.length; i++) {
-    const char = input.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
+function sha256(bytes: Uint8Array): string {
+  const hash = SHA256_INITIAL_HASH.slice();
+  const bitLength = bytes.length * 8;
+
+  // Pad with a 1 bit, zeros, and the 64-bit message length to a multiple of 64 bytes
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(w[i - 15], 7) ^ rotateRight(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotateRight(w[i - 2], 17) ^ rotateRight(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + SHA256_ROUND_CONSTANTS[i] + w[i]) >>> 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    [a, b, c, d, e, f, g, h].forEach((value, i) => {
+      hash[i] = (hash[i] + value) >>> 0;
+    });
   }
-  
-  // Convert to positive hex string, padded to 8 characters
-  return Math.abs(hash).toString(16).padStart(8, '0');
+
+  return hash.map(value => value.toString(16).padStart(8, '0')).join('');
+}
+
+function rotateRight(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+/**
+ * Generates a stable hash for SVG content: SHA-256 of its UTF-8 bytes,
+ * truncated to the configured number of hex characters.
+ * This provides consistent hashing for diffing, cache busting and incremental builds
+ */
+function generateHash(input: string, length: number): string {
+  return sha256(encodeUTF8(input)).slice(0, length);
+}
+
+/**
+ * Hashes an icon as a whole, so a change to any variant or tag changes it.
+ * Variants are keyed by their variant key, so moving artwork between variants counts too.
+ */
+function generateIconHash(tags: string[], variants: IconVariant[], axes: VariantAxis[], length: number): string {
+  return generateHash(JSON.stringify({
+    tags,
+    variants: variants.map(iconVariant => [getVariantKey(iconVariant.variant, axes), iconVariant.hash])
+  }), length);
 }
 
 /**
@@ -262,470 +1126,5164 @@ function yieldToFigma(ms: number = 0): Promise<void> {
 }
 
 /**
- * Normalizes SVG string for consistent output and hashing
+ * Fills in defaults for export options sent from the UI
  */
-function normalizeSVG(svgString: string): string {
-  try {
-    // Remove any existing whitespace and normalize
-    let normalized = svgString
-      .replace(/\s+/g, ' ') // Replace multiple whitespace with single space
-      .replace(/>\s+</g, '><') // Remove whitespace between tags
-      .trim();
-    
-    // Ensure viewBox is present and correct
-    if (!normalized.includes('viewBox=')) {
-      normalized = normalized.replace(
-        /<svg\b([^>]*)>/i,
-        `<svg$1 viewBox="${REQUIRED_VIEWBOX}">`
-      );
+function resolveExportOptions(rawOptions: any): ExportOptions {
+  const options = rawOptions || {};
+  return {
+    // Code and platform assets ship as files, so they always come in the ZIP bundle
+    format: options.format === 'zip' || options.sprite || options.react || options.android || options.ios ||
+      (options.raster && options.raster.enabled) || (options.font && options.font.enabled)
+      ? 'zip'
+      : DEFAULT_EXPORT_OPTIONS.format,
+    previousExport: typeof options.previousExport === 'string' && options.previousExport.trim()
+      ? options.previousExport
+      : DEFAULT_EXPORT_OPTIONS.previousExport,
+    scope: EXPORT_SCOPES.includes(options.scope) ? options.scope : DEFAULT_EXPORT_OPTIONS.scope,
+    pageIds: Array.isArray(options.pageIds)
+      ? options.pageIds.filter((id: any) => typeof id === 'string')
+      : DEFAULT_EXPORT_OPTIONS.pageIds,
+    optimization: resolveOptimizationSettings(options.optimization),
+    colorization: resolveColorizationSettings(options.colorization),
+    strokes: resolveStrokeSettings(options.strokes),
+    strict: Boolean(options.strict),
+    completeness: ['report', 'omit', 'fail'].includes(options.completeness)
+      ? options.completeness
+      : DEFAULT_EXPORT_OPTIONS.completeness,
+    hashLength: Number.isInteger(options.hashLength)
+      ? Math.min(MAX_HASH_LENGTH, Math.max(MIN_HASH_LENGTH, options.hashLength))
+      : DEFAULT_EXPORT_OPTIONS.hashLength,
+    cache: options.cache === undefined ? DEFAULT_EXPORT_OPTIONS.cache : Boolean(options.cache),
+    preview: Boolean(options.preview),
+    excludedIcons: Array.isArray(options.excludedIcons)
+      ? options.excludedIcons.filter((name: any) => typeof name === 'string')
+      : DEFAULT_EXPORT_OPTIONS.excludedIcons,
+    sprite: Boolean(options.sprite),
+    react: Boolean(options.react),
+    android: Boolean(options.android),
+    ios: Boolean(options.ios),
+    raster: resolveRasterSettings(options.raster),
+    font: resolveFontSettings(options.font),
+    version: typeof options.version === 'string' ? options.version.trim() : DEFAULT_EXPORT_OPTIONS.version
+  };
+}
+
+/**
+ * Fills in defaults for icon font settings
+ */
+function resolveFontSettings(rawSettings: any): FontSettings {
+  const settings = rawSettings || {};
+  const defaults = DEFAULT_EXPORT_OPTIONS.font;
+  const familyName = typeof settings.familyName === 'string' ? settings.familyName.trim() : '';
+
+  return {
+    enabled: Boolean(settings.enabled),
+    variant: typeof settings.variant === 'string' ? settings.variant : defaults.variant,
+    familyName: /^[A-Za-z][\w-]*$/.test(familyName) ? familyName : defaults.familyName
+  };
+}
+
+/**
+ * Fills in defaults for PNG raster settings, dropping invalid sizes and scales
+ */
+function resolveRasterSettings(rawSettings: any): RasterSettings {
+  const settings = rawSettings || {};
+  const defaults = DEFAULT_EXPORT_OPTIONS.raster;
+  // Sizes are whole pixels: round before filtering and deduping so 0.4 and 24.2 don't survive as 0 and a second 24
+  const numbers = (values: any, max: number, fallback: number[], round: boolean) => {
+    if (!Array.isArray(values)) return fallback;
+    const valid = values.map(Number).map(value => round ? Math.round(value) : value).filter(value => value > 0 && value <= max);
+    return valid.length > 0 ? Array.from(new Set(valid)).sort((a, b) => a - b) : fallback;
+  };
+  const tint = typeof settings.tint === 'string' ? settings.tint.trim() : '';
+
+  return {
+    enabled: Boolean(settings.enabled),
+    sizes: numbers(settings.sizes, MAX_RASTER_SIZE, defaults.sizes, true),
+    scales: numbers(settings.scales, MAX_RASTER_SCALE, defaults.scales, false),
+    tint: /^#[0-9a-fA-F]{6}$/.test(tint) ? tint.toUpperCase() : defaults.tint
+  };
+}
+
+/**
+ * Fills in defaults for optimization settings, dropping unknown pass ids
+ */
+function resolveOptimizationSettings(rawSettings: any): OptimizationSettings {
+  const settings = rawSettings || {};
+  const defaults = DEFAULT_EXPORT_OPTIONS.optimization;
+  const knownIds = OPTIMIZATION_PASSES.map(pass => pass.id);
+  const precision = Number(settings.precision);
+
+  return {
+    passes: Array.isArray(settings.passes)
+      ? knownIds.filter(id => settings.passes.includes(id))
+      : defaults.passes,
+    precision: Number.isInteger(precision) && precision >= 0 && precision <= MAX_PRECISION
+      ? precision
+      : defaults.precision
+  };
+}
+
+/**
+ * Fills in defaults for colorization settings
+ */
+function resolveColorizationSettings(rawSettings: any): ColorizationSettings {
+  const settings = rawSettings || {};
+  const defaults = DEFAULT_EXPORT_OPTIONS.colorization;
+  const opacity = Number(settings.secondaryOpacity);
+  const variable = typeof settings.secondaryColorVariable === 'string' ? settings.secondaryColorVariable.trim() : '';
+
+  return {
+    enabled: Boolean(settings.enabled),
+    secondaryLayerName: typeof settings.secondaryLayerName === 'string'
+      ? settings.secondaryLayerName
+      : defaults.secondaryLayerName,
+    secondaryColorVariable: /^--[\w-]+$/.test(variable) ? variable : defaults.secondaryColorVariable,
+    secondaryOpacity: settings.secondaryOpacity !== undefined && opacity >= 0 && opacity <= 1
+      ? opacity
+      : defaults.secondaryOpacity
+  };
+}
+
+/**
+ * Fills in defaults for stroke settings
+ */
+function resolveStrokeSettings(rawSettings: any): StrokeSettings {
+  const settings = rawSettings || {};
+  const defaults = DEFAULT_EXPORT_OPTIONS.strokes;
+  return {
+    preserve: Boolean(settings.preserve),
+    linecap: ['butt', 'round', 'square'].includes(settings.linecap) ? settings.linecap : defaults.linecap,
+    linejoin: ['miter', 'round', 'bevel'].includes(settings.linejoin) ? settings.linejoin : defaults.linejoin
+  };
+}
+
+/**
+ * Picks the options that change a variant's SVG, recorded in the export so an
+ * import knows whether its hashes can be compared
+ */
+function getProcessingSettings(options: ExportOptions): ProcessingSettings {
+  return {
+    optimization: options.optimization,
+    colorization: options.colorization,
+    strokes: options.strokes
+  };
+}
+
+/**
+ * Tells whether an export's recorded processing settings are the same as the
+ * current options, after filling in defaults on both sides
+ */
+function matchesProcessingSettings(recorded: ProcessingSettings | null, options: ExportOptions): boolean {
+  if (!recorded) return false;
+  const canonical = (settings: ProcessingSettings) => JSON.stringify(getProcessingSettings(resolveExportOptions(settings)));
+  return canonical(recorded) === canonical(getProcessingSettings(options));
+}
+
+// ============================================================================
+// SVG TREE
+// ============================================================================
+
+/**
+ * Strips a namespace prefix from a tag name ("svg:path" → "path")
+ */
+function stripNamespace(tagName: string): string {
+  return tagName.replace(/^[A-Za-z_][\w.-]*:/, '');
+}
+
+/**
+ * Returns the lowercase local name of an element, used for tag comparisons
+ */
+function localName(element: SvgElement): string {
+  return stripNamespace(element.name).toLowerCase();
+}
+
+/**
+ * Decodes the predefined XML entities and numeric character references
+ */
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (match, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const codePoint = entity[1] === 'x' || entity[1] === 'X'
+      ? parseInt(entity.slice(2), 16)
+      : parseInt(entity.slice(1), 10);
+    return isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+  });
+}
+
+function escapeXmlText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeXmlAttribute(value: string): string {
+  return escapeXmlText(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Parses an SVG string into an element tree without relying on the DOM,
+ * which is unavailable in the plugin sandbox. Comments, processing
+ * instructions and doctypes are dropped; unclosed elements are closed at the
+ * end of input so slightly truncated exports still parse.
+ */
+function parseSvg(source: string): SvgElement {
+  const documentNode: SvgElement = { type: 'element', name: '#document', attributes: {}, children: [] };
+  const stack: SvgElement[] = [documentNode];
+  const namePattern = /[A-Za-z_][\w:.-]*/y;
+  const attributePattern = /\s*([^\s=\/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>\/]+)))?/y;
+  let index = 0;
+
+  const skipPast = (terminator: string, construct: string) => {
+    const end = source.indexOf(terminator, index);
+    if (end === -1) {
+      throw new Error(`Invalid SVG: unterminated ${construct}`);
+    }
+    index = end + terminator.length;
+  };
+
+  while (index < source.length) {
+    const current = stack[stack.length - 1];
+
+    if (source.startsWith('<!--', index)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', index)) {
+      const start = index + 9;
+      skipPast(']]>', 'CDATA section');
+      current.children.push({ type: 'text', value: source.slice(start, index - 3), cdata: true });
+    } else if (source.startsWith('<?', index)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', index)) {
+      // Doctype, possibly with an internal subset in [...]
+      const bracket = source.indexOf('[', index);
+      const close = source.indexOf('>', index);
+      if (bracket !== -1 && bracket < close) {
+        skipPast(']>', 'doctype');
+      } else {
+        skipPast('>', 'doctype');
+      }
+    } else if (source.startsWith('</', index)) {
+      const end = source.indexOf('>', index);
+      if (end === -1) {
+        throw new Error('Invalid SVG: unterminated closing tag');
+      }
+      const name = source.slice(index + 2, end).trim();
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Invalid SVG: unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      index = end + 1;
+    } else if (source[index] === '<') {
+      namePattern.lastIndex = index + 1;
+      const nameMatch = namePattern.exec(source);
+      if (!nameMatch) {
+        throw new Error(`Invalid SVG: malformed tag at position ${index}`);
+      }
+
+      const element: SvgElement = { type: 'element', name: nameMatch[0], attributes: {}, children: [] };
+      index = namePattern.lastIndex;
+
+      let selfClosing = false;
+      while (true) {
+        while (index < source.length && /\s/.test(source[index])) index++;
+        if (source.startsWith('/>', index)) {
+          selfClosing = true;
+          index += 2;
+          break;
+        }
+        if (source[index] === '>') {
+          index++;
+          break;
+        }
+        attributePattern.lastIndex = index;
+        const attributeMatch = attributePattern.exec(source);
+        if (!attributeMatch || attributePattern.lastIndex === index) {
+          throw new Error(`Invalid SVG: malformed attributes on <${element.name}>`);
+        }
+        const rawValue = attributeMatch[2] ?? attributeMatch[3] ?? attributeMatch[4] ?? '';
+        element.attributes[attributeMatch[1]] = decodeXmlEntities(rawValue);
+        index = attributePattern.lastIndex;
+      }
+
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
     } else {
-      // Normalize existing viewBox
-      normalized = normalized.replace(
-        /viewBox\s*=\s*["']([^"']*)["']/i,
-        `viewBox="${REQUIRED_VIEWBOX}"`
-      );
+      const next = source.indexOf('<', index);
+      const end = next === -1 ? source.length : next;
+      current.children.push({ type: 'text', value: decodeXmlEntities(source.slice(index, end)) });
+      index = end;
     }
-    
-    // Remove unstable attributes that shouldn't affect the hash
-    normalized = normalized
-      .replace(/\s+id\s*=\s*["'][^"']*["']/gi, '') // Remove id attributes
-      .replace(/\s+class\s*=\s*["'][^"']*["']/gi, '') // Remove class attributes
-      .replace(/\s+data-[^=]*\s*=\s*["'][^"']*["']/gi, ''); // Remove data attributes
-    
-    // Normalize attribute spacing
-    normalized = normalized.replace(/\s+/g, ' ').trim();
-    
-    return normalized;
-  } catch (error) {
-    console.error('Error normalizing SVG:', error);
-    return svgString;
   }
+
+  const root = documentNode.children.find(
+    (child): child is SvgElement => child.type === 'element' && localName(child) === 'svg'
+  );
+  if (!root) {
+    throw new Error('Invalid SVG: missing <svg> root element');
+  }
+  return root;
+}
+
+/**
+ * Orders attribute names canonically: namespace declarations first, then alphabetical
+ */
+function compareAttributeNames(a: string, b: string): number {
+  const aIsNs = a === 'xmlns' || a.startsWith('xmlns:');
+  const bIsNs = b === 'xmlns' || b.startsWith('xmlns:');
+  if (aIsNs !== bIsNs) return aIsNs ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Serializes a tree back to a compact SVG string with canonical attribute
+ * ordering, so equivalent SVGs always produce identical output and hashes
+ */
+function serializeSvg(node: SvgNode): string {
+  if (node.type === 'text') {
+    return node.cdata ? `<![CDATA[${node.value}]]>` : escapeXmlText(node.value);
+  }
+
+  const attributes = Object.keys(node.attributes)
+    .sort(compareAttributeNames)
+    .map(name => ` ${name}="${escapeXmlAttribute(node.attributes[name])}"`)
+    .join('');
+
+  if (node.children.length === 0) {
+    return `<${node.name}${attributes}/>`;
+  }
+  return `<${node.name}${attributes}>${node.children.map(serializeSvg).join('')}</${node.name}>`;
+}
+
+/**
+ * Visits every element in the tree depth-first, parents before children
+ */
+function walkSvg(element: SvgElement, visitor: (element: SvgElement, parent: SvgElement | null) => void, parent: SvgElement | null = null): void {
+  visitor(element, parent);
+  for (const child of element.children) {
+    if (child.type === 'element') {
+      walkSvg(child, visitor, element);
+    }
+  }
+}
+
+/**
+ * Collects ids referenced via url(#id) or href="#id" anywhere in the tree
+ */
+function collectReferencedIds(root: SvgElement): Set<string> {
+  const referenced = new Set<string>();
+  walkSvg(root, element => {
+    for (const [name, value] of Object.entries(element.attributes)) {
+      const urlPattern = /url\(\s*['"]?#([^'")\s]+)['"]?\s*\)/g;
+      let match: RegExpExecArray | null;
+      while ((match = urlPattern.exec(value))) {
+        referenced.add(match[1]);
+      }
+      if ((name === 'href' || name === 'xlink:href') && value.startsWith('#')) {
+        referenced.add(value.slice(1));
+      }
+    }
+  });
+  return referenced;
+}
+
+// ============================================================================
+// SVG PROCESSING
+// ============================================================================
+
+/**
+ * Normalizes an SVG tree for consistent output and hashing
+ */
+function normalizeSVG(root: SvgElement): void {
+  // Ensure viewBox is present and correct
+  root.attributes.viewBox = REQUIRED_VIEWBOX;
+
+  // Ids are unstable between exports; only keep the ones something points at
+  const referencedIds = collectReferencedIds(root);
+
+  walkSvg(root, element => {
+    for (const name of Object.keys(element.attributes)) {
+      const isUnreferencedId = name === 'id' && !referencedIds.has(element.attributes[name]);
+      if (isUnreferencedId || name === 'class' || name.startsWith('data-')) {
+        delete element.attributes[name];
+      } else {
+        element.attributes[name] = element.attributes[name].replace(/\s+/g, ' ').trim();
+      }
+    }
+
+    // Drop formatting whitespace between tags
+    element.children = element.children.filter(child =>
+      child.type === 'element' || child.cdata || child.value.trim().length > 0
+    );
+  });
 }
 
 /**
- * Deduplicates *exact* duplicate leaf shapes in an SVG string.
+ * Deduplicates *exact* duplicate leaf shapes among siblings in an SVG tree.
  * Safe-by-default: only removes elements proven visually redundant.
- * Works in Figma plugin (no DOM).
+ * Returns the number of elements removed.
  */
-function deduplicateSVG(svgString: string): string {
+function deduplicateSVG(root: SvgElement): number {
   const DEBUG_DEDUP = false;
-  try {
-    const svgMatch = svgString.match(/^<svg\b[^>]*>/i);
-    if (!svgMatch) return svgString;
-    const svgOpen = svgMatch[0];
-    const svgClose = '</svg>';
-
-    const start = svgOpen.length;
-    const end = svgString.lastIndexOf(svgClose);
-    if (end < start) return svgString;
-
-    const body = svgString.slice(start, end);
-
-    // Match self-closing or paired elements: <tag .../> OR <tag ...>...</tag>
-    // We will only dedupe *leaf* shapes; paired-with-children will be kept.
-    const elementRe = /<([A-Za-z_][\w:.-]*)(\s+[^>]*?)?\s*(\/>|>([\s\S]*?)<\/\1>)/g;
-
-    // Quick helpers
-    const collapseWs = (s: string) => s.replace(/\s+/g, ' ').trim();
-    const stripNs = (tag: string) => tag.replace(/^[A-Za-z_]\w*:/, ''); // strip "svg:" etc.
-
-    // Parse attributes into a sorted, normalized record
-    const parseAttrs = (attrSrc = ''): Record<string,string> => {
-      const out: Record<string,string> = {};
-      // attr="..." | '...' | bare
-      const attrRe = /([A-Za-z_:][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+))/g;
-      let m: RegExpExecArray | null;
-      while ((m = attrRe.exec(attrSrc))) {
-        const name = m[1];
-        const val = m[2] || m[3] || m[4] || '';
-        out[name] = val;
-      }
-      return out;
-    };
-
-    // Normalize attrs for hashing (ignore order & minor formatting)
-    const normalizeAttrs = (attrs: Record<string,string>): Record<string,string> => {
-      const norm: Record<string,string> = {};
-      for (const [k, v] of Object.entries(attrs)) {
-        let vv = v;
-        // normalize whitespace
-        vv = vv.replace(/\s+/g, ' ').trim();
-        // normalize path data spacing (do NOT alter numbers/content)
-        if (k === 'd') vv = vv.replace(/\s+/g, ' ').trim();
-        norm[k] = vv;
-      }
-      return norm;
-    };
 
-    // Remove only when provably safe not to change rendering
-    const isSafeToRemove = (tag: string, attrs: Record<string,string>, hasChildren: boolean): boolean => {
-      if (hasChildren) return false; // only leaf nodes
-      const t = stripNs(tag).toLowerCase();
-      if (!SHAPE_TAGS.has(t)) return false;
+  // Remove only when provably safe not to change rendering
+  const isSafeToRemove = (element: SvgElement): boolean => {
+    if (element.children.length > 0) return false; // only leaf nodes
+    if (!SHAPE_TAGS.has(localName(element))) return false;
 
-      const a = attrs;
-      const val = (k: string, def = '') => (a[k] || def).trim();
+    const a = element.attributes;
 
-      // Anything that suggests styling, references, or hooks → keep
-      for (const riskyAttr of RISKY_ATTRIBUTES) {
-        if (a[riskyAttr]) {
-          return false;
-        }
+    // Anything that suggests styling, references, or hooks → keep
+    for (const riskyAttr of RISKY_ATTRIBUTES) {
+      if (a[riskyAttr]) {
+        return false;
       }
-      if (Object.values(a).some(v => /url\(#/.test(v))) return false;
+    }
+    if (Object.values(a).some(v => /url\(#/.test(v))) return false;
 
-      // Opacity guards
-      const full = (k: string) => (a[k] == null) || /^[01](?:\.0+)?$/.test(a[k] as string);
-      if (!full('opacity')) return false;
-      if (!full('fill-opacity')) return false;
-      if (!full('stroke-opacity')) return false;
+    // Opacity guards
+    const full = (k: string) => (a[k] == null) || /^[01](?:\.0+)?$/.test(a[k]);
+    if (!full('opacity')) return false;
+    if (!full('fill-opacity')) return false;
+    if (!full('stroke-opacity')) return false;
 
-      // Strokes can change visual weight when doubled; require absence
-      if (a['stroke'] != null && a['stroke'] !== 'none') return false;
+    // Strokes can change visual weight when doubled; require absence
+    if (a['stroke'] != null && a['stroke'] !== 'none') return false;
 
-      // OK to remove duplicates of pure fills at full opacity
-      return true;
-    };
+    // OK to remove duplicates of pure fills at full opacity
+    return true;
+  };
 
-    // Canonical key = tag + sorted attrs (name=value)
-    const keyOf = (tag: string, attrs: Record<string,string>): string => {
-      const t = stripNs(tag).toLowerCase();
-      const norm = normalizeAttrs(attrs);
-      const keys = Object.keys(norm).sort();
-      // You can choose to *exclude* benign attrs from the key if desired.
-      const pairs = keys.map(k => `${k}=${norm[k]}`);
-      return `${t}|${pairs.join(';')}`;
-    };
+  // Canonical key = tag + sorted attrs (name=value), ignoring formatting whitespace
+  const keyOf = (element: SvgElement): string => {
+    const pairs = Object.keys(element.attributes)
+      .sort()
+      .map(k => `${k}=${element.attributes[k].replace(/\s+/g, ' ').trim()}`);
+    return `${localName(element)}|${pairs.join(';')}`;
+  };
+
+  let removed = 0;
+
+  walkSvg(root, element => {
+    // Content of defs, masks, clip paths etc. is referenced rather than painted
+    if (REFERENCE_CONTAINER_TAGS.has(localName(element))) return;
 
+    // Walk backwards and keep the *last* copy: an opaque duplicate painted later
+    // covers the earlier one, so dropping the earlier copy never changes stacking.
     const seen = new Set<string>();
-    const out: string[] = [];
-    let removed = 0;
-
-    elementRe.lastIndex = 0;
-    let m: RegExpExecArray | null;
-
-    while ((m = elementRe.exec(body))) {
-      const [, rawTag, rawAttrs = '', selfOrClose, inner = ''] = m;
-      const tag = rawTag;
-      const hasChildren = selfOrClose.startsWith('>'); // paired form
-      const attrs = parseAttrs(rawAttrs);
-
-      // Only dedupe safe leaf shapes; otherwise keep as-is
-      if (isSafeToRemove(tag, attrs, hasChildren)) {
-        const k = keyOf(tag, attrs);
-        if (seen.has(k)) {
+    const kept: SvgNode[] = [];
+    for (let i = element.children.length - 1; i >= 0; i--) {
+      const child = element.children[i];
+      if (child.type === 'element' && isSafeToRemove(child)) {
+        const key = keyOf(child);
+        if (seen.has(key)) {
           removed++;
           continue; // drop duplicate
         }
-        seen.add(k);
+        seen.add(key);
       }
-
-      // Keep original element exactly as authored
-      out.push(m[0]);
-    }
-
-    if (DEBUG_DEDUP && removed > 0) {
-      console.log(`[deduplicateSVG] removed ${removed} duplicate element(s)`);
+      kept.unshift(child);
     }
+    element.children = kept;
+  });
 
-    return `${svgOpen}${out.join('')}${svgClose}`;
-  } catch (err) {
-    console.error('[deduplicateSVG] error', err);
-    return svgString;
+  if (DEBUG_DEDUP && removed > 0) {
+    console.log(`[deduplicateSVG] removed ${removed} duplicate element(s)`);
   }
+
+  return removed;
 }
 
 /**
- * Validates SVG content for tone variants and other requirements
+ * Returns true for fixed color values (hex or functional notation)
  */
-function validateSVG(svgString: string, variant: { weight: string; duotone: boolean }): ValidationResult {
-  const errors: string[] = [];
-  
-  // Check basic SVG structure
-  if (!svgString.trim().startsWith('<svg')) {
-    errors.push('SVG does not start with <svg tag');
-  }
-  
-  if (!svgString.trim().endsWith('</svg>')) {
-    errors.push('SVG does not end with </svg> tag');
-  }
-  
-  // Check for proper opening and closing tag balance
-  const openTags = (svgString.match(/<svg[^>]*>/gi) || []).length;
-  const closeTags = (svgString.match(/<\/svg>/gi) || []).length;
-  if (openTags !== closeTags) {
-    errors.push(`SVG tag mismatch: ${openTags} opening tags, ${closeTags} closing tags`);
-  }
-  
-  // Check viewBox
-  if (!svgString.includes(`viewBox="${REQUIRED_VIEWBOX}"`)) {
-    errors.push(`Missing or incorrect viewBox. Expected: "${REQUIRED_VIEWBOX}"`);
+function isFixedColor(value: string | undefined): boolean {
+  if (!value) return false;
+  return /^\s*(#[0-9a-fA-F]{3,8}|(rgb|rgba|hsl|hsla)\s*\()/.test(value);
+}
+
+// Each rule inspects the final SVG tree and returns one message per problem found
+const LINT_RULES: LintRule[] = [
+  {
+    id: 'viewbox',
+    severity: 'error',
+    description: `Root <svg> must have viewBox="${REQUIRED_VIEWBOX}"`,
+    check: (root) => {
+      if (localName(root) !== 'svg') {
+        return [`Root element is <${root.name}>, expected <svg>`];
+      }
+      return root.attributes.viewBox === REQUIRED_VIEWBOX
+        ? []
+        : [`Missing or incorrect viewBox "${root.attributes.viewBox || ''}". Expected: "${REQUIRED_VIEWBOX}"`];
+    }
+  },
+  {
+    id: 'hardcoded-color',
+    severity: 'error',
+    description: 'Single-color variants must not contain fixed colors',
+    check: (root, _svg, variant, axes) => {
+      if (variantAllowsColor(variant, axes)) return [];
+      const colors = new Set<string>();
+      walkSvg(root, element => {
+        for (const attribute of ['fill', 'stroke', 'stop-color']) {
+          if (isFixedColor(element.attributes[attribute])) {
+            colors.add(element.attributes[attribute]);
+          }
+        }
+      });
+      return colors.size > 0
+        ? [`Single-color variant (${describeVariant(variant)}) contains fixed colors: ${Array.from(colors).join(', ')}`]
+        : [];
+    }
+  },
+  {
+    id: 'stroke',
+    severity: 'warning',
+    description: 'Strokes should be outlined before export',
+    check: (root) => {
+      let count = 0;
+      walkSvg(root, element => {
+        const stroke = element.attributes.stroke;
+        if (stroke !== undefined && stroke !== 'none') count++;
+      });
+      return count > 0 ? [`${count} element(s) still use stroke after outlining`] : [];
+    }
+  },
+  {
+    id: 'transform',
+    severity: 'warning',
+    description: 'Transforms should be flattened into the geometry',
+    check: (root) => {
+      let count = 0;
+      walkSvg(root, element => {
+        if (element.attributes.transform) count++;
+      });
+      return count > 0 ? [`${count} element(s) use transform`] : [];
+    }
+  },
+  {
+    id: 'mask-clip',
+    severity: 'warning',
+    description: 'Masks and clip paths are poorly supported by many consumers',
+    check: (root) => {
+      const found = new Set<string>();
+      walkSvg(root, element => {
+        const name = localName(element);
+        if (name === 'mask' || name === 'clippath') found.add(`<${element.name}>`);
+        if (element.attributes.mask) found.add('mask attribute');
+        if (element.attributes['clip-path']) found.add('clip-path attribute');
+      });
+      return found.size > 0 ? [`Uses ${Array.from(found).join(', ')}`] : [];
+    }
+  },
+  {
+    id: 'raster-image',
+    severity: 'error',
+    description: 'Icons must not embed raster <image> elements',
+    check: (root) => {
+      let count = 0;
+      walkSvg(root, element => {
+        if (localName(element) === 'image') count++;
+      });
+      return count > 0 ? [`Contains ${count} raster <image> element(s)`] : [];
+    }
+  },
+  {
+    id: 'empty-path',
+    severity: 'warning',
+    description: 'Paths must draw something',
+    check: (root) => {
+      let count = 0;
+      walkSvg(root, element => {
+        if (localName(element) !== 'path') return;
+        // A path needs at least one drawing command besides moveto
+        if (!/[LHVCSQTAZlhvcsqtaz]/.test(element.attributes.d || '')) count++;
+      });
+      return count > 0 ? [`${count} empty path(s)`] : [];
+    }
+  },
+  {
+    id: 'file-size',
+    severity: 'warning',
+    description: `SVG should be smaller than ${MAX_SVG_BYTES / 1024} KB`,
+    check: (_root, svg) => {
+      const bytes = encodeUTF8(svg).length;
+      return bytes > MAX_SVG_BYTES
+        ? [`SVG is ${(bytes / 1024).toFixed(1)} KB (limit ${MAX_SVG_BYTES / 1024} KB)`]
+        : [];
+    }
   }
-  
-  // Non-duotone variants should not have fixed hex colors
-  if (!variant.duotone) {
-    const hexColorRegex = /fill\s*=\s*["']#[0-9a-fA-F]{3,6}["']/g;
-    if (hexColorRegex.test(svgString)) {
-      errors.push(`Non-duotone variant (weight: "${variant.weight}", duotone: ${variant.duotone}) should not contain fixed hex colors (fill="#...")`);
+];
+
+/**
+ * Runs every lint rule against a variant's final SVG
+ */
+function validateSVG(root: SvgElement, svg: string, variant: VariantValues, axes: VariantAxis[]): LintViolation[] {
+  const violations: LintViolation[] = [];
+  for (const rule of LINT_RULES) {
+    for (const message of rule.check(root, svg, variant, axes)) {
+      violations.push({ rule: rule.id, severity: rule.severity, message });
     }
   }
-  
+  return violations;
+}
+
+/**
+ * Counts findings by severity for the export summary
+ */
+function summarizeValidation(findings: LintFinding[]): ValidationReport {
+  // Variants are processed concurrently, so sort for a stable export
+  findings = findings.slice().sort((a, b) =>
+    a.icon.localeCompare(b.icon) || a.variant.localeCompare(b.variant) || a.rule.localeCompare(b.rule)
+  );
   return {
-    isValid: errors.length === 0,
-    errors
+    errors: findings.filter(finding => finding.severity === 'error').length,
+    warnings: findings.filter(finding => finding.severity === 'warning').length,
+    findings
   };
 }
 
 // ============================================================================
-// COMPONENT PROCESSING FUNCTIONS
+// SVG OPTIMIZATION
 // ============================================================================
 
 /**
- * Gets all components and component sets from a page
+ * Rounds a number to the given number of decimals and formats it compactly
  */
-function getComponentsFromPage(page: PageNode): { components: ComponentNode[], componentSets: any[] } {
-  const components: ComponentNode[] = [];
-  const componentSets: any[] = [];
-  
-  function traverse(node: any) {
-    if (node.type === 'COMPONENT') {
-      components.push(node as ComponentNode);
-    } else if (node.type === 'COMPONENT_SET') {
-      // Handle component sets (variants)
-      componentSets.push(node);
-      if ('children' in node) {
-        for (const child of node.children) {
-          if (child.type === 'COMPONENT') {
-            components.push(child as ComponentNode);
-          }
-        }
+function formatNumber(value: number, precision: number): string {
+  const rounded = Number(value.toFixed(precision));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * Rounds every number in an attribute value (path data, points, lengths)
+ */
+function roundNumbers(value: string, precision: number): string {
+  return value.replace(/-?(?:\d+\.\d*|\.\d+|\d+)(?:[eE][-+]?\d+)?/g, match => formatNumber(parseFloat(match), precision));
+}
+
+/**
+ * Returns the bounding box of a path's points and control points, or null
+ * when the path uses commands we can't bound cheaply (relative, arcs).
+ * Bezier curves lie inside the hull of their control points, so this box
+ * always contains the rendered shape. The implicit control points of S and T
+ * (the previous curve's last control point reflected) are included too.
+ */
+function getPathBounds(d: string): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  const tokens = d.match(/[A-Za-z]|-?(?:\d+\.\d*|\.\d+|\d+)(?:[eE][-+]?\d+)?/g);
+  if (!tokens) return null;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  let x = 0, y = 0;
+  let startX = 0, startY = 0;
+  let command = '';
+  // Last control point of the previous segment, when it was a cubic (C/S) or quadratic (Q/T) curve
+  let cubicControl: Point | null = null;
+  let quadControl: Point | null = null;
+  const include = (px: number, py: number) => {
+    minX = Math.min(minX, px); maxX = Math.max(maxX, px);
+    minY = Math.min(minY, py); maxY = Math.max(maxY, py);
+  };
+  // S and T start with the previous control point mirrored through the current point, or the current point itself
+  const reflect = (control: Point | null): Point => control ? { x: 2 * x - control.x, y: 2 * y - control.y } : { x, y };
+
+  for (let i = 0; i < tokens.length;) {
+    if (/[A-Za-z]/.test(tokens[i])) {
+      command = tokens[i++];
+      if (command === 'Z') {
+        x = startX; y = startY;
+        cubicControl = quadControl = null;
+        continue;
       }
+      if (!'MLHVCSQT'.includes(command)) return null;
     }
-    
-    if ('children' in node) {
-      for (const child of node.children) {
-        traverse(child);
+    const read = () => {
+      const n = parseFloat(tokens[i++]);
+      if (isNaN(n)) throw new Error('bad path');
+      return n;
+    };
+    try {
+      let nextCubic: Point | null = null;
+      let nextQuad: Point | null = null;
+      if (command === 'H') { x = read(); include(x, y); }
+      else if (command === 'V') { y = read(); include(x, y); }
+      else if (command === 'M') {
+        x = startX = read(); y = startY = read(); include(x, y);
+        // Further coordinate pairs are implicit line-tos
+        command = 'L';
+      }
+      else if (command === 'L') { x = read(); y = read(); include(x, y); }
+      else if (command === 'Q' || command === 'T') {
+        nextQuad = command === 'Q' ? { x: read(), y: read() } : reflect(quadControl);
+        include(nextQuad.x, nextQuad.y);
+        x = read(); y = read(); include(x, y);
+      }
+      else if (command === 'C' || command === 'S') {
+        const first = command === 'C' ? { x: read(), y: read() } : reflect(cubicControl);
+        include(first.x, first.y);
+        nextCubic = { x: read(), y: read() };
+        include(nextCubic.x, nextCubic.y);
+        x = read(); y = read(); include(x, y);
       }
+      else return null;
+      cubicControl = nextCubic;
+      quadControl = nextQuad;
+    } catch (error) {
+      return null;
     }
   }
-  
-  traverse(page);
-  return { components, componentSets };
+
+  return minX === Infinity ? null : { minX, minY, maxX, maxY };
 }
 
 /**
- * Groups components by their base name for processing individual components
+ * Removes width/height from the root; the fixed viewBox defines the size
  */
-function groupComponentsByBaseName(components: ComponentNode[]): { [baseName: string]: ComponentNode[] } {
-  const groups: { [baseName: string]: ComponentNode[] } = {};
-  
+function removeDimensionsPass(root: SvgElement): void {
+  delete root.attributes.width;
+  delete root.attributes.height;
+}
+
+/**
+ * Removes attributes set to their SVG default value. Inherited properties are
+ * only removed when no ancestor overrides them, and the root's fill="none" is
+ * only removed when every shape sets its own fill.
+ */
+function removeDefaultAttributesPass(root: SvgElement): void {
+  const visit = (element: SvgElement, inherited: { [name: string]: string }) => {
+    const own: { [name: string]: string } = { ...inherited };
+    for (const [name, defaultValue] of Object.entries(DEFAULT_ATTRIBUTE_VALUES)) {
+      const value = element.attributes[name];
+      if (value === undefined) continue;
+      const isInherited = INHERITED_ATTRIBUTES.has(name);
+      const ancestorValue = inherited[name];
+      if (value === defaultValue && (!isInherited || ancestorValue === undefined || ancestorValue === defaultValue)) {
+        delete element.attributes[name];
+      } else if (isInherited) {
+        own[name] = value;
+      }
+    }
+    for (const child of element.children) {
+      if (child.type === 'element') visit(child, own);
+    }
+  };
+  visit(root, {});
+
+  if (root.attributes.fill === 'none') {
+    let reliesOnRootFill = false;
+    const check = (element: SvgElement, hasFill: boolean) => {
+      const fillSet = hasFill || element.attributes.fill !== undefined;
+      if (SHAPE_TAGS.has(localName(element)) && !fillSet) reliesOnRootFill = true;
+      for (const child of element.children) {
+        if (child.type === 'element' && !REFERENCE_CONTAINER_TAGS.has(localName(child))) check(child, fillSet);
+      }
+    };
+    root.children.forEach(child => child.type === 'element' && check(child, false));
+    if (!reliesOnRootFill) {
+      delete root.attributes.fill;
+    }
+  }
+}
+
+/**
+ * Rounds path data and numeric geometry attributes to a fixed precision
+ */
+function roundPrecisionPass(root: SvgElement, settings: OptimizationSettings): void {
+  walkSvg(root, element => {
+    for (const name of Object.keys(element.attributes)) {
+      if (name === 'd' || name === 'points' || NUMERIC_ATTRIBUTES.has(name)) {
+        element.attributes[name] = roundNumbers(element.attributes[name], settings.precision);
+      }
+    }
+  });
+}
+
+/**
+ * Unwraps <g> elements that don't contribute anything: groups without
+ * attributes, and single-child groups whose presentation attributes can move
+ * onto the child
+ */
+function collapseGroupsPass(root: SvgElement): void {
+  const referencedIds = collectReferencedIds(root);
+
+  const collapse = (element: SvgElement) => {
+    element.children.forEach(child => child.type === 'element' && collapse(child));
+
+    const children: SvgNode[] = [];
+    for (const child of element.children) {
+      if (child.type !== 'element' || localName(child) !== 'g') {
+        children.push(child);
+        continue;
+      }
+
+      const attributeNames = Object.keys(child.attributes);
+      if (child.attributes.id && referencedIds.has(child.attributes.id)) {
+        children.push(child);
+      } else if (attributeNames.length === 0) {
+        children.push(...child.children);
+      } else if (
+        child.children.length === 1 &&
+        child.children[0].type === 'element' &&
+        attributeNames.every(name => INHERITED_ATTRIBUTES.has(name) && !(name in (child.children[0] as SvgElement).attributes))
+      ) {
+        const only = child.children[0] as SvgElement;
+        Object.assign(only.attributes, child.attributes);
+        children.push(only);
+      } else {
+        children.push(child);
+      }
+    }
+    element.children = children;
+  };
+
+  collapse(root);
+}
+
+/**
+ * Returns how far a path's stroke can reach beyond its geometry, from its own
+ * and inherited stroke attributes: half the stroke width, times the miter
+ * limit for miter joins or √2 for square caps. Returns null when it can't be
+ * told (a width that isn't a plain number).
+ */
+function getStrokePadding(attributes: { [name: string]: string }): number | null {
+  const stroke = attributes.stroke;
+  if (stroke === undefined || stroke === 'none') return 0;
+
+  const width = attributes['stroke-width'] !== undefined ? Number(attributes['stroke-width']) : 1;
+  if (!Number.isFinite(width)) return null;
+  const miterLimit = attributes['stroke-miterlimit'] !== undefined ? Number(attributes['stroke-miterlimit']) : 4;
+  if (!Number.isFinite(miterLimit)) return null;
+
+  const join = attributes['stroke-linejoin'] || 'miter';
+  const factor = Math.max(
+    join === 'miter' || join === 'miter-clip' || join === 'arcs' ? Math.max(miterLimit, 1) : 1,
+    attributes['stroke-linecap'] === 'square' ? Math.SQRT2 : 1
+  );
+  return Math.abs(width) / 2 * factor;
+}
+
+/**
+ * Merges adjacent <path> siblings with identical attributes into one path.
+ * Only paths whose painted areas (bounding boxes widened by the stroke) don't
+ * overlap are merged, so fill rules, opacity and paint order can't change how
+ * overlapping areas render. Paths under an element with a `style` attribute
+ * are left alone, since their inherited stroke isn't known.
+ */
+function mergePathsPass(root: SvgElement): void {
+  const canMerge = (element: SvgElement) =>
+    localName(element) === 'path' &&
+    element.children.length === 0 &&
+    !element.attributes.id &&
+    !Array.from(RISKY_ATTRIBUTES).some(name => element.attributes[name] !== undefined) &&
+    !['marker-start', 'marker-mid', 'marker-end'].some(name => element.attributes[name] !== undefined);
+
+  const styleKey = (element: SvgElement) => Object.keys(element.attributes)
+    .filter(name => name !== 'd')
+    .sort()
+    .map(name => `${name}=${element.attributes[name]}`)
+    .join(';');
+
+  const overlaps = (a: NonNullable<ReturnType<typeof getPathBounds>>, b: NonNullable<ReturnType<typeof getPathBounds>>) =>
+    a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+
+  // Stroke attributes set on ancestors, or null once a style attribute hides them
+  const inheritStroke = (inherited: { [name: string]: string } | null, element: SvgElement) => {
+    if (!inherited || element.attributes.style !== undefined) return null;
+    const own = { ...inherited };
+    for (const name of ['stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit']) {
+      if (element.attributes[name] !== undefined) own[name] = element.attributes[name];
+    }
+    return own;
+  };
+
+  const visit = (element: SvgElement, inherited: { [name: string]: string } | null) => {
+    const stroke = inheritStroke(inherited, element);
+    for (const child of element.children) {
+      if (child.type === 'element') visit(child, stroke);
+    }
+    if (REFERENCE_CONTAINER_TAGS.has(localName(element))) return;
+
+    const children: SvgNode[] = [];
+    let previous: { element: SvgElement; key: string; bounds: NonNullable<ReturnType<typeof getPathBounds>>[] } | null = null;
+
+    for (const child of element.children) {
+      const geometry = child.type === 'element' && canMerge(child) ? getPathBounds(child.attributes.d || '') : null;
+      const childStroke = child.type === 'element' ? inheritStroke(stroke, child) : null;
+      const padding = childStroke ? getStrokePadding(childStroke) : null;
+      if (child.type !== 'element' || !geometry || padding === null) {
+        children.push(child);
+        previous = null;
+        continue;
+      }
+      const bounds = {
+        minX: geometry.minX - padding,
+        minY: geometry.minY - padding,
+        maxX: geometry.maxX + padding,
+        maxY: geometry.maxY + padding
+      };
+
+      const key = styleKey(child);
+      if (previous && previous.key === key && !previous.bounds.some(existing => overlaps(existing, bounds))) {
+        previous.element.attributes.d = `${previous.element.attributes.d} ${child.attributes.d}`;
+        previous.bounds.push(bounds);
+        continue;
+      }
+
+      children.push(child);
+      previous = { element: child, key, bounds: [bounds] };
+    }
+    element.children = children;
+  };
+  visit(root, {});
+}
+
+const OPTIMIZATION_PASSES: OptimizationPass[] = [
+  { id: 'removeDimensions', label: 'Remove width/height', run: removeDimensionsPass },
+  { id: 'removeDefaultAttributes', label: 'Remove default attributes', run: removeDefaultAttributesPass },
+  { id: 'collapseGroups', label: 'Collapse useless groups', run: collapseGroupsPass },
+  { id: 'roundPrecision', label: 'Round numeric precision', run: roundPrecisionPass },
+  { id: 'mergePaths', label: 'Merge adjacent paths', run: mergePathsPass }
+];
+
+function createOptimizationStats(): OptimizationStats {
+  return { bytesBefore: 0, bytesAfter: 0, passes: {} };
+}
+
+/**
+ * Adds one variant's stats to the export's running totals
+ */
+function mergeOptimizationStats(total: OptimizationStats, stats: OptimizationStats): void {
+  total.bytesBefore += stats.bytesBefore;
+  total.bytesAfter += stats.bytesAfter;
+  for (const [id, saved] of Object.entries(stats.passes)) {
+    total.passes[id] = (total.passes[id] || 0) + saved;
+  }
+}
+
+/**
+ * Runs the enabled optimization passes in order, recording bytes saved per pass
+ */
+function optimizeSVG(root: SvgElement, settings: OptimizationSettings, stats: OptimizationStats): void {
+  let size = encodeUTF8(serializeSvg(root)).length;
+
+  for (const pass of OPTIMIZATION_PASSES) {
+    if (!settings.passes.includes(pass.id)) continue;
+    pass.run(root, settings);
+    const nextSize = encodeUTF8(serializeSvg(root)).length;
+    stats.passes[pass.id] = (stats.passes[pass.id] || 0) + (size - nextSize);
+    size = nextSize;
+  }
+}
+
+/**
+ * Builds short summary lines for displaying optimization results in the UI
+ */
+function summarizeOptimization(stats: OptimizationStats): string[] {
+  const formatBytes = (bytes: number) => bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+  const saved = stats.bytesBefore - stats.bytesAfter;
+  const percent = stats.bytesBefore > 0 ? Math.round((saved / stats.bytesBefore) * 100) : 0;
+
+  const lines = [`${formatBytes(stats.bytesBefore)} → ${formatBytes(stats.bytesAfter)} (${percent}% smaller)`];
+  for (const pass of OPTIMIZATION_PASSES) {
+    if (stats.passes[pass.id] !== undefined) {
+      lines.push(`${pass.label}: −${formatBytes(stats.passes[pass.id])}`);
+    }
+  }
+  return lines;
+}
+
+// ============================================================================
+// COLORIZATION
+// ============================================================================
+
+/**
+ * Returns true for fill/stroke values that are concrete colors we can theme
+ */
+function isThemeableColor(value: string | undefined): value is string {
+  if (!value) return false;
+  const normalized = value.trim().toLowerCase();
+  return normalized !== 'none' &&
+    normalized !== 'currentcolor' &&
+    normalized !== 'transparent' &&
+    !normalized.startsWith('url(') &&
+    !normalized.startsWith('var(');
+}
+
+/**
+ * Rewrites fills and strokes so icons can be themed from CSS: primary paints
+ * become currentColor and, for variants that allow color (duotone), the
+ * secondary layer becomes var(--icon-secondary, currentColor) with a fixed
+ * opacity. The secondary layer is found by Figma layer name (exported as ids)
+ * and falls back to translucent paints. Returns notes describing any
+ * ambiguous mapping.
+ */
+function colorizeSVG(root: SvgElement, allowsColor: boolean, settings: ColorizationSettings): string[] {
+  const notes: string[] = [];
+  const layerName = settings.secondaryLayerName.trim().toLowerCase();
+  const paints: ColorizedPaint[] = [];
+  const parents = new Map<SvgElement, SvgElement | null>();
+
+  const toOpacity = (value: string | undefined) => {
+    const parsed = value === undefined ? 1 : parseFloat(value);
+    return isNaN(parsed) ? 1 : parsed;
+  };
+
+  const visit = (element: SvgElement, parent: SvgElement | null, named: boolean, opacity: number, inherited: { [name: string]: number }) => {
+    parents.set(element, parent);
+    const id = (element.attributes.id || '').toLowerCase();
+    const isNamed = named || (layerName.length > 0 && id.includes(layerName));
+    const elementOpacity = opacity * toOpacity(element.attributes.opacity);
+    const paintOpacity = {
+      fill: element.attributes['fill-opacity'] !== undefined ? toOpacity(element.attributes['fill-opacity']) : inherited.fill,
+      stroke: element.attributes['stroke-opacity'] !== undefined ? toOpacity(element.attributes['stroke-opacity']) : inherited.stroke
+    };
+
+    for (const attribute of ['fill', 'stroke'] as const) {
+      const color = element.attributes[attribute];
+      if (isThemeableColor(color)) {
+        paints.push({
+          element,
+          attribute,
+          color: color.toLowerCase(),
+          byName: isNamed,
+          opacity: elementOpacity * paintOpacity[attribute]
+        });
+      }
+    }
+
+    for (const child of element.children) {
+      // Masks and clip paths rely on their literal colors
+      if (child.type === 'element' && !REFERENCE_CONTAINER_TAGS.has(localName(child))) {
+        visit(child, element, isNamed, elementOpacity, paintOpacity);
+      }
+    }
+  };
+  visit(root, null, false, 1, { fill: 1, stroke: 1 });
+
+  if (paints.length === 0) {
+    return notes;
+  }
+
+  // Decide which paints belong to the secondary (duotone) layer
+  let secondary = new Set<ColorizedPaint>();
+  if (allowsColor) {
+    const byName = paints.filter(paint => paint.byName);
+    const byOpacity = paints.filter(paint => paint.opacity < 1);
+
+    if (byName.length > 0) {
+      secondary = new Set(byName);
+      if (byOpacity.length > 0 && (byOpacity.length !== byName.length || byOpacity.some(paint => !paint.byName))) {
+        notes.push(`Layer name "${settings.secondaryLayerName}" and translucent paints disagree; used the layer name`);
+      }
+    } else if (byOpacity.length > 0) {
+      secondary = new Set(byOpacity);
+      const levels = new Set(byOpacity.map(paint => formatNumber(paint.opacity, 2)));
+      if (levels.size > 1) {
+        notes.push(`Secondary layer found by opacity, but translucent paints use ${levels.size} different opacities (${Array.from(levels).join(', ')})`);
+      }
+    } else {
+      notes.push(`No secondary layer found (no layer named "${settings.secondaryLayerName}" and no translucent paints); all paints mapped to currentColor`);
+    }
+  }
+
+  const secondaryValue = `var(${settings.secondaryColorVariable}, currentColor)`;
+  const describe = (paint: ColorizedPaint) =>
+    `${paint.color}${paint.opacity < 1 ? ` (opacity ${formatNumber(paint.opacity, 2)})` : ''}`;
+
+  // Report the mapping when several distinct colors collapse into one role
+  const distinctColors = new Set(paints.map(describe));
+  if (distinctColors.size > (allowsColor ? 2 : 1)) {
+    const mapping = Array.from(new Set(paints.map(paint =>
+      `${describe(paint)} → ${secondary.has(paint) ? secondaryValue : 'currentColor'}`
+    )));
+    notes.push(`${distinctColors.size} distinct colors mapped: ${mapping.join(', ')}`);
+  }
+
+  // Ancestors whose opacity only applies to secondary paints would double up
+  // with the configured secondary opacity, so that opacity moves onto the paints
+  const ancestorsOf = (element: SvgElement) => {
+    const ancestors: SvgElement[] = [];
+    let current = parents.get(element) || null;
+    while (current) {
+      ancestors.push(current);
+      current = parents.get(current) || null;
+    }
+    return ancestors;
+  };
+  const primaryAncestors = new Set<SvgElement>();
+  paints.filter(paint => !secondary.has(paint)).forEach(paint => {
+    primaryAncestors.add(paint.element);
+    ancestorsOf(paint.element).forEach(ancestor => primaryAncestors.add(ancestor));
+  });
+
+  for (const paint of paints) {
+    const attributes = paint.element.attributes;
+    if (!secondary.has(paint)) {
+      attributes[paint.attribute] = 'currentColor';
+      continue;
+    }
+
+    attributes[paint.attribute] = secondaryValue;
+    delete attributes[`${paint.attribute}-opacity`];
+    if (!primaryAncestors.has(paint.element)) {
+      attributes.opacity = formatNumber(settings.secondaryOpacity, 3);
+    } else {
+      attributes[`${paint.attribute}-opacity`] = formatNumber(settings.secondaryOpacity, 3);
+    }
+    ancestorsOf(paint.element)
+      .filter(ancestor => !primaryAncestors.has(ancestor))
+      .forEach(ancestor => delete ancestor.attributes.opacity);
+  }
+
+  return notes;
+}
+
+// ============================================================================
+// STROKES
+// ============================================================================
+
+/**
+ * Prepares strokes for consumers that adjust line weight: concrete stroke
+ * colors become currentColor and every stroke gets the configured caps and
+ * joins. Returns the most common stroke width (null without strokes), plus a
+ * note when the widths differ.
+ */
+function normalizeStrokes(root: SvgElement, settings: StrokeSettings): { strokeWidth: number | null; notes: string[] } {
+  const widths = new Map<number, number>();
+
+  const visit = (element: SvgElement, inheritedWidth: string) => {
+    const width = element.attributes['stroke-width'] !== undefined ? element.attributes['stroke-width'] : inheritedWidth;
+    const stroke = element.attributes.stroke;
+    if (stroke !== undefined && stroke !== 'none') {
+      // Leave themed (var), gradient (url) and currentColor strokes as they are
+      if (isThemeableColor(stroke)) {
+        element.attributes.stroke = 'currentColor';
+      }
+      element.attributes['stroke-linecap'] = settings.linecap;
+      element.attributes['stroke-linejoin'] = settings.linejoin;
+      const parsed = parseFloat(width);
+      if (!isNaN(parsed)) {
+        widths.set(parsed, (widths.get(parsed) || 0) + 1);
+      }
+    }
+
+    for (const child of element.children) {
+      // Masks and clip paths rely on their literal paints
+      if (child.type === 'element' && !REFERENCE_CONTAINER_TAGS.has(localName(child))) {
+        visit(child, width);
+      }
+    }
+  };
+  visit(root, DEFAULT_ATTRIBUTE_VALUES['stroke-width']);
+
+  if (widths.size === 0) {
+    return { strokeWidth: null, notes: [] };
+  }
+  // Most used width wins; ties go to the thicker stroke
+  const [strokeWidth] = Array.from(widths.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+  const notes = widths.size > 1
+    ? [`Mixed stroke widths (${Array.from(widths.keys()).sort((a, b) => a - b).join(', ')}); recorded ${strokeWidth}`]
+    : [];
+  return { strokeWidth, notes };
+}
+
+/**
+ * Lists the visible layers of a component with inside or outside strokes.
+ * SVG can only draw centered strokes, so these render differently outside Figma.
+ */
+function findAlignedStrokes(component: ComponentNode): string[] {
+  const problems: string[] = [];
+  const visit = (node: SceneNode) => {
+    if (!node.visible) return;
+    if ('strokes' in node && 'strokeAlign' in node && node.strokes.some(paint => paint.visible !== false) && node.strokeAlign !== 'CENTER') {
+      problems.push(`Stroke of "${node.name}" is aligned ${node.strokeAlign.toLowerCase()}; SVG strokes are centered, so it renders differently than in Figma`);
+    }
+    if ('children' in node) {
+      node.children.forEach(visit);
+    }
+  };
+  component.children.forEach(visit);
+  return problems;
+}
+
+// ============================================================================
+// ZIP ARCHIVE
+// ============================================================================
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Encodes a string as UTF-8 bytes (TextEncoder is not available in the plugin sandbox)
+ */
+function encodeUTF8(input: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    let code = input.charCodeAt(i);
+    // Combine surrogate pairs into a single code point
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < input.length) {
+      const next = input.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Standard CRC-32 (IEEE) checksum as required by the ZIP format
+ */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Converts a date into the MS-DOS time/date pair stored in ZIP headers
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Builds an uncompressed (stored) ZIP archive from a list of entries.
+ * SVG and JSON payloads are small, so skipping deflate keeps this simple
+ * and lets the archive be assembled entirely inside the plugin sandbox,
+ * without a ZIP library in the bundle. There is no ZIP64 support, so
+ * archives with more than 65,535 entries or over 4 GB are rejected.
+ */
+function createZipArchive(entries: ArchiveEntry[], modifiedAt: Date = new Date()): Uint8Array {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`The ZIP bundle would hold ${entries.length} files, more than the ${MAX_ZIP_ENTRIES} a ZIP file without ZIP64 can list. Export fewer icons or turn off some targets (e.g. PNG sizes or scales).`);
+  }
+  const { time, date } = toDosDateTime(modifiedAt);
+  const UTF8_FLAG = 0x0800;
+
+  const prepared = entries.map(entry => {
+    const nameBytes = encodeUTF8(entry.path);
+    const data = typeof entry.content === 'string' ? encodeUTF8(entry.content) : entry.content;
+    return { nameBytes, data, crc: crc32(data), offset: 0 };
+  });
+
+  const localSize = prepared.reduce((sum, file) => sum + 30 + file.nameBytes.length + file.data.length, 0);
+  const centralSize = prepared.reduce((sum, file) => sum + 46 + file.nameBytes.length, 0);
+  // Offsets and sizes are 32-bit
+  if (localSize + centralSize > MAX_ZIP_BYTES) {
+    throw new Error('The ZIP bundle would be larger than 4 GB, which a ZIP file without ZIP64 can\'t hold. Export fewer icons or turn off some targets.');
+  }
+  const buffer = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(buffer.buffer);
+  let offset = 0;
+
+  // Local file headers followed by file data
+  for (const file of prepared) {
+    file.offset = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.nameBytes.length, true);
+    view.setUint16(offset + 28, 0, true);
+    buffer.set(file.nameBytes, offset + 30);
+    buffer.set(file.data, offset + 30 + file.nameBytes.length);
+    offset += 30 + file.nameBytes.length + file.data.length;
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  for (const file of prepared) {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.nameBytes.length, true);
+    view.setUint16(offset + 30, 0, true);
+    view.setUint16(offset + 32, 0, true);
+    view.setUint16(offset + 34, 0, true);
+    view.setUint16(offset + 36, 0, true);
+    view.setUint32(offset + 38, 0, true);
+    view.setUint32(offset + 42, file.offset, true);
+    buffer.set(file.nameBytes, offset + 46);
+    offset += 46 + file.nameBytes.length;
+  }
+
+  // End of central directory record
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 4, 0, true);
+  view.setUint16(offset + 6, 0, true);
+  view.setUint16(offset + 8, prepared.length, true);
+  view.setUint16(offset + 10, prepared.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  view.setUint16(offset + 20, 0, true);
+
+  return buffer;
+}
+
+/**
+ * Returns a stable key for a variant, e.g. "regular" or "bold-duotone".
+ * String values are kebab-cased; boolean axes contribute their key when true.
+ * Keys not covered by the configured axes (e.g. from an older export) follow.
+ */
+function getVariantKey(variant: VariantValues, axes: VariantAxis[]): string {
+  const axisKeys = axes.map(axis => axis.key);
+  const extraKeys = Object.keys(variant).filter(key => !axisKeys.includes(key)).sort();
+
+  return axisKeys
+    .concat(extraKeys)
+    .filter(key => key in variant)
+    .map(key => {
+      const value = variant[key];
+      if (typeof value === 'boolean') {
+        return value ? toKebabCase(key) : '';
+      }
+      return toKebabCase(String(value));
+    })
+    .filter(part => part.length > 0)
+    .join('-') || 'default';
+}
+
+/**
+ * Builds one archive entry per variant as svg/<variant-key>/<name>.svg.
+ * Icons are expected to be sorted already; folders follow the configured
+ * axis order used by processIconGroup.
+ */
+function buildSvgArchiveEntries(icons: IconData[], axes: VariantAxis[]): ArchiveEntry[] {
+  const folders = new Map<string, { variant: VariantValues; entries: ArchiveEntry[] }>();
+
+  for (const icon of icons) {
+    for (const iconVariant of icon.variants) {
+      const folder = getVariantKey(iconVariant.variant, axes);
+      if (!folders.has(folder)) {
+        folders.set(folder, { variant: iconVariant.variant, entries: [] });
+      }
+      folders.get(folder)!.entries.push({
+        path: `${SVG_FOLDER}/${folder}/${icon.name}.svg`,
+        content: iconVariant.svg
+      });
+    }
+  }
+
+  return Array.from(folders.entries())
+    .sort(([aKey, a], [bKey, b]) => compareVariants(a.variant, b.variant, axes) || aKey.localeCompare(bKey))
+    .reduce<ArchiveEntry[]>((entries, [, folder]) => entries.concat(folder.entries), []);
+}
+
+// ============================================================================
+// SVG SPRITES
+// ============================================================================
+
+/**
+ * Turns one normalized variant SVG into a <symbol>. Internal ids are prefixed
+ * with the icon name (and url(#...)/href references rewritten) so they can't
+ * clash with other symbols in the same sprite.
+ */
+function convertToSymbol(root: SvgElement, iconName: string): SvgElement {
+  const renamed = new Map<string, string>();
+  walkSvg(root, element => {
+    if (element !== root && element.attributes.id !== undefined) {
+      const id = `${iconName}__${element.attributes.id}`;
+      renamed.set(element.attributes.id, id);
+      element.attributes.id = id;
+    }
+  });
+
+  if (renamed.size > 0) {
+    walkSvg(root, element => {
+      for (const [name, value] of Object.entries(element.attributes)) {
+        if ((name === 'href' || name === 'xlink:href') && value.startsWith('#') && renamed.has(value.slice(1))) {
+          element.attributes[name] = `#${renamed.get(value.slice(1))}`;
+        } else {
+          element.attributes[name] = value.replace(/url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g,
+            (match, quote, id) => renamed.has(id) ? `url(#${renamed.get(id)})` : match);
+        }
+      }
+    });
+  }
+
+  // The root's presentation attributes (e.g. fill="none") still apply on the
+  // symbol; its size and namespaces move to the sprite's <svg>
+  const attributes: { [name: string]: string } = {};
+  for (const [name, value] of Object.entries(root.attributes)) {
+    if (name === 'xmlns' || name.startsWith('xmlns:') || ['width', 'height', 'x', 'y', 'version', 'id'].includes(name)) {
+      continue;
+    }
+    attributes[name] = value;
+  }
+  attributes.id = iconName;
+  return { type: 'element', name: 'symbol', attributes, children: root.children };
+}
+
+/**
+ * Builds one sprite/<variant-key>/sprite.svg per variant, holding a <symbol>
+ * for every icon that has that variant. Icons are expected to be sorted already.
+ */
+function buildSpriteArchiveEntries(icons: IconData[], axes: VariantAxis[]): ArchiveEntry[] {
+  const sprites = new Map<string, { variant: VariantValues; sprite: SvgElement }>();
+
+  for (const icon of icons) {
+    for (const iconVariant of icon.variants) {
+      const variantKey = getVariantKey(iconVariant.variant, axes);
+      if (!sprites.has(variantKey)) {
+        sprites.set(variantKey, {
+          variant: iconVariant.variant,
+          sprite: { type: 'element', name: 'svg', attributes: { xmlns: 'http://www.w3.org/2000/svg' }, children: [] }
+        });
+      }
+      const { sprite } = sprites.get(variantKey)!;
+      const root = parseSvg(iconVariant.svg);
+      // Keep extra namespace declarations (e.g. xmlns:xlink) the symbol's content relies on
+      for (const [name, value] of Object.entries(root.attributes)) {
+        if (name.startsWith('xmlns:')) sprite.attributes[name] = value;
+      }
+      sprite.children.push(convertToSymbol(root, icon.name));
+    }
+  }
+
+  return Array.from(sprites.entries())
+    .sort(([aKey, a], [bKey, b]) => compareVariants(a.variant, b.variant, axes) || aKey.localeCompare(bKey))
+    .map(([variantKey, { sprite }]) => ({
+      path: `${SPRITE_FOLDER}/${variantKey}/${SPRITE_FILENAME}`,
+      content: serializeSvg(sprite)
+    }));
+}
+
+// ============================================================================
+// REACT COMPONENTS
+// ============================================================================
+
+// Prop names claimed by every generated component, so axes can't reuse them
+const REACT_RESERVED_PROPS = new Set(['size', 'color', 'ref', 'key', 'children']);
+
+/**
+ * Converts a kebab-case icon name to a component name ("arrow-left" → "ArrowLeft")
+ */
+function toPascalCase(name: string): string {
+  const pascal = name
+    .split('-')
+    .filter(part => part.length > 0)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  // Identifiers can't start with a digit
+  return /^[0-9]/.test(pascal) || !pascal ? `Icon${pascal}` : pascal;
+}
+
+/**
+ * Converts a variant axis key to the prop name used by the generated components
+ */
+function getAxisPropName(axis: VariantAxis): string {
+  const pascal = toPascalCase(toKebabCase(axis.key));
+  const prop = pascal[0].toLowerCase() + pascal.slice(1);
+  return REACT_RESERVED_PROPS.has(prop) ? `${prop}Variant` : prop;
+}
+
+/**
+ * Builds the lookup key a generated component uses to pick a variant. Must
+ * match the variantKey() helper emitted into types.ts.
+ */
+function getReactVariantKey(variant: VariantValues, axes: VariantAxis[]): string {
+  return axes.map(axis => String(axis.key in variant ? variant[axis.key] : axis.defaultValue)).join('|');
+}
+
+/**
+ * Maps an SVG attribute name to its React prop name (stroke-width → strokeWidth)
+ */
+function toJsxAttributeName(name: string): string {
+  if (name === 'class') return 'className';
+  if (name.startsWith('data-') || name.startsWith('aria-')) return name;
+  return name.replace(/[-:]([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Formats an attribute value as a JSX attribute value, turning inline styles
+ * into style objects
+ */
+function toJsxAttributeValue(name: string, value: string): string {
+  if (name === 'style') {
+    const declarations = value
+      .split(';')
+      .map(declaration => declaration.split(':'))
+      .filter(parts => parts.length >= 2 && parts[0].trim())
+      .map(([property, ...rest]) => {
+        const key = property.trim();
+        const prop = key.startsWith('--') ? JSON.stringify(key) : toJsxAttributeName(key.toLowerCase());
+        return `${prop}: ${JSON.stringify(rest.join(':').trim())}`;
+      });
+    return `{{ ${declarations.join(', ')} }}`;
+  }
+  // JSX string attributes don't support escapes, so fall back to an expression
+  return /["&\\]/.test(value) ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+/**
+ * Renders an SVG element tree as indented JSX. Whitespace-only text is dropped;
+ * other text (e.g. <style> contents) is emitted as a string expression.
+ */
+function renderJsx(element: SvgElement, indent: string, extraAttributes: string = ''): string {
+  const name = stripNamespace(element.name);
+  const attributes = Object.keys(element.attributes)
+    .sort(compareAttributeNames)
+    .map(attribute => ` ${toJsxAttributeName(attribute)}=${toJsxAttributeValue(attribute, element.attributes[attribute])}`)
+    .join('') + extraAttributes;
+
+  const children = element.children
+    .filter(child => child.type === 'element' || child.value.trim().length > 0)
+    .map(child => child.type === 'element'
+      ? renderJsx(child, `${indent}  `)
+      : `${indent}  {${JSON.stringify(child.value)}}`);
+
+  if (children.length === 0) {
+    return `${indent}<${name}${attributes} />`;
+  }
+  return `${indent}<${name}${attributes}>\n${children.join('\n')}\n${indent}</${name}>`;
+}
+
+/**
+ * Generates types.ts: the IconName union, the shared props and the variant lookup helper
+ */
+function generateReactTypes(icons: IconData[], axes: VariantAxis[]): string {
+  const propNames = axes.map(getAxisPropName);
+  const axisProps = axes.map((axis, index) => {
+    const type = axis.values.every(axisValue => typeof axisValue.value === 'boolean')
+      ? 'boolean'
+      : axis.values.map(axisValue => JSON.stringify(axisValue.value)).join(' | ');
+    return `  ${propNames[index]}?: ${type};`;
+  });
+  const omitted = ['ref', 'color', ...propNames].map(prop => JSON.stringify(prop)).join(' | ');
+  const iconNames = icons.length > 0 ? icons.map(icon => `  | ${JSON.stringify(icon.name)}`).join('\n') : '  never';
+
+  return [
+    '// Generated by Stera Icon Exporter. Do not edit.',
+    'import type { ReactElement, SVGProps } from "react";',
+    '',
+    `export type IconName =\n${iconNames};`,
+    '',
+    'export interface IconVariantProps {',
+    ...axisProps,
+    '}',
+    '',
+    `export interface IconProps extends Omit<SVGProps<SVGSVGElement>, ${omitted}>, IconVariantProps {`,
+    '  size?: number | string;',
+    '  color?: string;',
+    '}',
+    '',
+    'export type VariantRenderer = (props: SVGProps<SVGSVGElement>) => ReactElement;',
+    '',
+    'export function variantKey(variant: Required<IconVariantProps>): string {',
+    `  return [${propNames.map(prop => `variant.${prop}`).join(', ')}].map(String).join("|");`,
+    '}',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Generates one forwardRef component per icon, selecting among its variants
+ */
+function generateReactComponent(icon: IconData, componentName: string, axes: VariantAxis[]): string {
+  const propNames = axes.map(getAxisPropName);
+  const defaults: VariantValues = {};
+  axes.forEach(axis => { defaults[axis.key] = axis.defaultValue; });
+  const defaultKey = getReactVariantKey(defaults, axes);
+
+  const renderers = icon.variants.map(iconVariant => {
+    const key = getReactVariantKey(iconVariant.variant, axes);
+    const jsx = renderJsx(parseSvg(iconVariant.svg), '    ', ' {...props}');
+    return `  ${JSON.stringify(key)}: props => (\n${jsx}\n  ),`;
+  });
+  // Missing combinations fall back to the default variant, or the first one exported
+  const fallbackKey = icon.variants.some(iconVariant => getReactVariantKey(iconVariant.variant, axes) === defaultKey)
+    ? defaultKey
+    : getReactVariantKey(icon.variants[0].variant, axes);
+
+  const params = [
+    'size = 24',
+    'color = "currentColor"',
+    ...axes.map((axis, index) => `${propNames[index]} = ${JSON.stringify(axis.defaultValue)}`),
+    '...props'
+  ];
+
+  return [
+    '// Generated by Stera Icon Exporter. Do not edit.',
+    'import * as React from "react";',
+    'import { variantKey, type IconProps, type VariantRenderer } from "./types";',
+    '',
+    'const variants: { [key: string]: VariantRenderer } = {',
+    ...renderers,
+    '};',
+    '',
+    `export const ${componentName} = React.forwardRef<SVGSVGElement, IconProps>(function ${componentName}(`,
+    `  { ${params.join(', ')} },`,
+    '  ref',
+    ') {',
+    `  const render = variants[variantKey({ ${propNames.join(', ')} })] || variants[${JSON.stringify(fallbackKey)}];`,
+    '  return render({ ref, width: size, height: size, color, ...props });',
+    '});',
+    '',
+    `export default ${componentName};`,
+    ''
+  ].join('\n');
+}
+
+/**
+ * Builds react/<Component>.tsx for every icon plus react/types.ts and a
+ * react/index.ts barrel. Icons are expected to be sorted already.
+ */
+function buildReactArchiveEntries(icons: IconData[], axes: VariantAxis[]): ArchiveEntry[] {
+  const usedNames = new Set<string>(['Types', 'Index']);
+  const components = icons
+    .filter(icon => icon.variants.length > 0)
+    .map(icon => {
+      // Distinct kebab names can still PascalCase alike ("arrow-2" and "arrow2")
+      const base = toPascalCase(icon.name);
+      let componentName = base;
+      for (let suffix = 2; usedNames.has(componentName); suffix++) {
+        componentName = `${base}${suffix}`;
+      }
+      usedNames.add(componentName);
+      return { icon, componentName };
+    });
+
+  const barrel = [
+    '// Generated by Stera Icon Exporter. Do not edit.',
+    'export type { IconName, IconProps, IconVariantProps } from "./types";',
+    ...components.map(({ componentName }) => `export { ${componentName} } from "./${componentName}";`),
+    ''
+  ].join('\n');
+
+  return [
+    { path: `${REACT_FOLDER}/types.ts`, content: generateReactTypes(icons, axes) },
+    { path: `${REACT_FOLDER}/index.ts`, content: barrel },
+    ...components.map(({ icon, componentName }) => ({
+      path: `${REACT_FOLDER}/${componentName}.tsx`,
+      content: generateReactComponent(icon, componentName, axes)
+    }))
+  ];
+}
+
+// ============================================================================
+// MOBILE TARGETS
+// ============================================================================
+
+const ANDROID_NAMESPACE = 'http://schemas.android.com/apk/res/android';
+
+// Elements that carry no paint and are dropped without a note
+const IGNORED_VECTOR_TAGS = new Set(['title', 'desc', 'metadata', 'defs']);
+
+// Elements Xcode's SVG renderer doesn't draw reliably
+const XCASSET_UNSUPPORTED_TAGS = new Set(['style', 'text', 'image', 'foreignobject', 'filter', 'mask', 'pattern']);
+
+// Named colors Figma emits; anything else must be hex or rgb()
+const NAMED_COLORS: { [name: string]: string } = {
+  black: '#000000',
+  white: '#FFFFFF',
+  red: '#FF0000',
+  green: '#008000',
+  blue: '#0000FF',
+  gray: '#808080',
+  grey: '#808080'
+};
+
+/**
+ * Resolves an SVG paint to a hex color and alpha. currentColor is reported
+ * separately so callers can tint it; var() uses its fallback. Returns "none"
+ * for no paint and null when the paint can't be represented (e.g. gradients).
+ */
+function resolvePaint(value: string): { hex: string; alpha: number; current: boolean } | 'none' | null {
+  const paint = value.trim();
+  const lower = paint.toLowerCase();
+  if (lower === 'none' || lower === 'transparent') return 'none';
+  if (lower === 'currentcolor') return { hex: '#000000', alpha: 1, current: true };
+
+  const variable = /^var\(\s*--[\w-]+\s*,\s*(.+)\)$/i.exec(paint);
+  if (variable) return resolvePaint(variable[1]);
+
+  if (NAMED_COLORS[lower]) return { hex: NAMED_COLORS[lower], alpha: 1, current: false };
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(paint);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+    return {
+      hex: `#${digits.slice(0, 6).toUpperCase()}`,
+      alpha: digits.length === 8 ? parseInt(digits.slice(6), 16) / 255 : 1,
+      current: false
+    };
+  }
+
+  const rgb = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(paint);
+  if (rgb) {
+    const channels = rgb.slice(1, 4).map(channel => Math.max(0, Math.min(255, Math.round(parseFloat(channel)))));
+    return {
+      hex: `#${channels.map(channel => channel.toString(16).padStart(2, '0')).join('').toUpperCase()}`,
+      alpha: rgb[4] !== undefined ? parseFloat(rgb[4]) : 1,
+      current: false
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Converts a basic shape to path data, or returns null for non-shapes
+ */
+function shapeToPathData(element: SvgElement): string | null {
+  const number = (name: string) => parseFloat(element.attributes[name] || '0') || 0;
+  const format = (value: number) => formatNumber(value, 3);
+  const points = () => (element.attributes.points || '').trim().split(/[\s,]+/).filter(Boolean).map(Number);
+
+  switch (localName(element)) {
+    case 'path':
+      return element.attributes.d || '';
+    case 'rect': {
+      const x = number('x'), y = number('y'), width = number('width'), height = number('height');
+      let rx = element.attributes.rx !== undefined ? number('rx') : number('ry');
+      let ry = element.attributes.ry !== undefined ? number('ry') : rx;
+      rx = Math.min(rx, width / 2);
+      ry = Math.min(ry, height / 2);
+      if (rx <= 0 || ry <= 0) {
+        return `M${format(x)},${format(y)}H${format(x + width)}V${format(y + height)}H${format(x)}Z`;
+      }
+      const arc = (toX: number, toY: number) => `A${format(rx)},${format(ry)} 0 0 1 ${format(toX)},${format(toY)}`;
+      return `M${format(x + rx)},${format(y)}H${format(x + width - rx)}${arc(x + width, y + ry)}` +
+        `V${format(y + height - ry)}${arc(x + width - rx, y + height)}` +
+        `H${format(x + rx)}${arc(x, y + height - ry)}V${format(y + ry)}${arc(x + rx, y)}Z`;
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = number('cx'), cy = number('cy');
+      const rx = localName(element) === 'circle' ? number('r') : number('rx');
+      const ry = localName(element) === 'circle' ? number('r') : number('ry');
+      const arc = (toX: number) => `A${format(rx)},${format(ry)} 0 1 0 ${format(toX)},${format(cy)}`;
+      return `M${format(cx - rx)},${format(cy)}${arc(cx + rx)}${arc(cx - rx)}Z`;
+    }
+    case 'line':
+      return `M${format(number('x1'))},${format(number('y1'))}L${format(number('x2'))},${format(number('y2'))}`;
+    case 'polyline':
+    case 'polygon': {
+      const values = points();
+      const pairs: string[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        pairs.push(`${format(values[i])},${format(values[i + 1])}`);
+      }
+      if (pairs.length === 0) return '';
+      return `M${pairs.join('L')}${localName(element) === 'polygon' ? 'Z' : ''}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Turns an SVG transform list into nested VectorDrawable group attributes,
+ * outermost first. Skews and rotating matrices have no group equivalent.
+ */
+function transformToGroups(transform: string, problems: string[]): { [name: string]: string }[] {
+  const groups: { [name: string]: string }[] = [];
+  const format = (value: number) => formatNumber(value, 4);
+  const pattern = /(\w+)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(transform))) {
+    const [, type, rawArgs] = match;
+    const args = rawArgs.trim().split(/[\s,]+/).filter(Boolean).map(Number);
+    if (type === 'translate') {
+      groups.push({ 'android:translateX': format(args[0] || 0), 'android:translateY': format(args[1] || 0) });
+    } else if (type === 'scale') {
+      groups.push({ 'android:scaleX': format(args[0]), 'android:scaleY': format(args.length > 1 ? args[1] : args[0]) });
+    } else if (type === 'rotate') {
+      groups.push({ 'android:rotation': format(args[0] || 0), 'android:pivotX': format(args[1] || 0), 'android:pivotY': format(args[2] || 0) });
+    } else if (type === 'matrix' && args.length === 6 && args[1] === 0 && args[2] === 0) {
+      groups.push({ 'android:translateX': format(args[4]), 'android:translateY': format(args[5]) });
+      groups.push({ 'android:scaleX': format(args[0]), 'android:scaleY': format(args[3]) });
+    } else {
+      problems.push(`Unsupported transform ${type}(${rawArgs.trim()}); ignored`);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Serializes a VectorDrawable tree with one attribute per line, as Android
+ * Studio formats it. Attributes keep insertion order.
+ */
+function serializeAndroidXml(element: SvgElement, indent: string = ''): string {
+  const attributeIndent = `${indent}    `;
+  const attributes = Object.keys(element.attributes)
+    .map(name => `\n${attributeIndent}${name}="${escapeXmlAttribute(element.attributes[name])}"`)
+    .join('');
+  const children = element.children.filter((child): child is SvgElement => child.type === 'element');
+  if (children.length === 0) {
+    return `${indent}<${element.name}${attributes} />`;
+  }
+  return `${indent}<${element.name}${attributes}>\n` +
+    `${children.map(child => serializeAndroidXml(child, attributeIndent)).join('\n')}\n` +
+    `${indent}</${element.name}>`;
+}
+
+/**
+ * Converts a normalized SVG tree to Android VectorDrawable XML. Shapes become
+ * paths, transforms become groups and clip paths become <clip-path>; group
+ * opacity is folded into each path's alpha. Anything VectorDrawable can't
+ * express is listed in problems instead of being dropped silently.
+ */
+function convertToVectorDrawable(root: SvgElement): { xml: string; problems: string[] } {
+  const problems: string[] = [];
+  const viewBox = (root.attributes.viewBox || REQUIRED_VIEWBOX).trim().split(/[\s,]+/).map(Number);
+  const [minX, minY, width, height] = viewBox.length === 4 && viewBox.every(value => !isNaN(value)) ? viewBox : [0, 0, 24, 24];
+
+  const clipPaths = new Map<string, SvgElement>();
+  walkSvg(root, element => {
+    if (localName(element) === 'clippath' && element.attributes.id) {
+      clipPaths.set(element.attributes.id, element);
+    }
+  });
+
+  const paints: { current: boolean; attributes: { [name: string]: string }; name: string }[] = [];
+  const inheritedKeys = ['fill', 'fill-rule', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity',
+    'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit'];
+
+  const createPath = (pathData: string, style: { [name: string]: string }, alpha: number): SvgElement | null => {
+    const attributes: { [name: string]: string } = {};
+    const fill = resolvePaint(style.fill || 'black');
+    const stroke = resolvePaint(style.stroke || 'none');
+
+    if (fill === null) problems.push(`Unsupported fill ${style.fill}; path left unfilled`);
+    if (stroke === null) problems.push(`Unsupported stroke ${style.stroke}; stroke dropped`);
+    if (style['stroke-dasharray']) problems.push('Dashed strokes are not supported; drawn solid');
+
+    if (fill && fill !== 'none') {
+      attributes['android:fillColor'] = fill.hex;
+      const fillAlpha = fill.alpha * alpha * parseFloat(style['fill-opacity'] || '1');
+      if (fillAlpha < 1) attributes['android:fillAlpha'] = formatNumber(fillAlpha, 3);
+      if (style['fill-rule'] === 'evenodd') attributes['android:fillType'] = 'evenOdd';
+      paints.push({ current: fill.current, attributes, name: 'android:fillColor' });
+    }
+    if (stroke && stroke !== 'none') {
+      attributes['android:strokeColor'] = stroke.hex;
+      attributes['android:strokeWidth'] = formatNumber(parseFloat(style['stroke-width'] || '1'), 3);
+      const strokeAlpha = stroke.alpha * alpha * parseFloat(style['stroke-opacity'] || '1');
+      if (strokeAlpha < 1) attributes['android:strokeAlpha'] = formatNumber(strokeAlpha, 3);
+      if (style['stroke-linecap']) attributes['android:strokeLineCap'] = style['stroke-linecap'];
+      if (style['stroke-linejoin'] && style['stroke-linejoin'] !== 'miter-clip' && style['stroke-linejoin'] !== 'arcs') {
+        attributes['android:strokeLineJoin'] = style['stroke-linejoin'];
+      }
+      if (style['stroke-miterlimit']) attributes['android:strokeMiterLimit'] = style['stroke-miterlimit'];
+      paints.push({ current: stroke.current, attributes, name: 'android:strokeColor' });
+    }
+    if (!attributes['android:fillColor'] && !attributes['android:strokeColor']) {
+      return null;
+    }
+    attributes['android:pathData'] = pathData;
+    return { type: 'element', name: 'path', attributes, children: [] };
+  };
+
+  // Wraps converted content in groups for the element's transform and clip path
+  const wrap = (element: SvgElement, content: SvgElement[]): SvgElement[] => {
+    if (content.length === 0) return content;
+    let wrapped = content;
+    const clipReference = /^url\(#([^)]+)\)$/.exec(element.attributes['clip-path'] || '');
+    if (clipReference) {
+      const clipPath = clipPaths.get(clipReference[1]);
+      const shapes = clipPath
+        ? clipPath.children.filter((child): child is SvgElement => child.type === 'element')
+        : [];
+      const pathData = shapes.map(shapeToPathData);
+      if (!clipPath || shapes.length === 0 || pathData.some(data => data === null) ||
+        shapes.some(shape => shape.attributes.transform)) {
+        problems.push(`Clip path ${clipReference[1]} could not be converted; content drawn unclipped`);
+      } else {
+        const clip: SvgElement = { type: 'element', name: 'clip-path', attributes: { 'android:pathData': pathData.join('') }, children: [] };
+        wrapped = [{ type: 'element', name: 'group', attributes: {}, children: [clip, ...wrapped] }];
+      }
+    }
+    if (element.attributes.mask) {
+      problems.push(`Masks are not supported (mask="${element.attributes.mask}"); content drawn unmasked`);
+    }
+    if (element.attributes.filter) {
+      problems.push('Filters are not supported; ignored');
+    }
+    if (element.attributes.transform) {
+      const groups = transformToGroups(element.attributes.transform, problems);
+      for (let i = groups.length - 1; i >= 0; i--) {
+        wrapped = [{ type: 'element', name: 'group', attributes: groups[i], children: wrapped }];
+      }
+    }
+    return wrapped;
+  };
+
+  const convert = (element: SvgElement, inherited: { [name: string]: string }, alpha: number): SvgElement[] => {
+    const tag = localName(element);
+    if (IGNORED_VECTOR_TAGS.has(tag) || REFERENCE_CONTAINER_TAGS.has(tag)) return [];
+
+    const style = { ...inherited };
+    inheritedKeys.forEach(key => {
+      if (element.attributes[key] !== undefined) style[key] = element.attributes[key];
+    });
+    if (element.attributes['stroke-dasharray'] && element.attributes['stroke-dasharray'] !== 'none') {
+      style['stroke-dasharray'] = element.attributes['stroke-dasharray'];
+    }
+    const opacity = parseFloat(element.attributes.opacity || '1');
+    const elementAlpha = alpha * (isNaN(opacity) ? 1 : opacity);
+
+    if (tag === 'svg' || tag === 'g') {
+      const children = element.children.filter((child): child is SvgElement => child.type === 'element');
+      if (tag === 'g' && opacity < 1 && children.length > 1) {
+        problems.push('Group opacity applied to each child path; overlapping paths may look darker');
+      }
+      const content = children.reduce<SvgElement[]>((converted, child) => converted.concat(convert(child, style, elementAlpha)), []);
+      return tag === 'svg' ? content : wrap(element, content);
+    }
+
+    const pathData = shapeToPathData(element);
+    if (pathData === null) {
+      problems.push(`Unsupported <${tag}> element; skipped`);
+      return [];
+    }
+    const path = createPath(pathData, style, elementAlpha);
+    return path ? wrap(element, [path]) : [];
+  };
+
+  let content = convert(root, {}, 1);
+  if (minX !== 0 || minY !== 0) {
+    content = [{
+      type: 'element',
+      name: 'group',
+      attributes: { 'android:translateX': formatNumber(-minX, 4), 'android:translateY': formatNumber(-minY, 4) },
+      children: content
+    }];
+  }
+
+  const vector: SvgElement = {
+    type: 'element',
+    name: 'vector',
+    attributes: {
+      'xmlns:android': ANDROID_NAMESPACE,
+      'android:width': `${formatNumber(width, 3)}dp`,
+      'android:height': `${formatNumber(height, 3)}dp`,
+      'android:viewportWidth': formatNumber(width, 3),
+      'android:viewportHeight': formatNumber(height, 3)
+    },
+    children: content
+  };
+
+  // Tint only when every paint follows the text color; a tint would recolor literal paints too
+  if (paints.length > 0 && paints.every(paint => paint.current)) {
+    vector.attributes['android:tint'] = '?attr/colorControlNormal';
+  } else if (paints.some(paint => paint.current)) {
+    problems.push('currentColor mixed with fixed colors; currentColor drawn as black');
+  }
+
+  return { xml: `<?xml version="1.0" encoding="utf-8"?>\n${serializeAndroidXml(vector)}\n`, problems };
+}
+
+/**
+ * Prepares a variant SVG for an Xcode asset catalog: CSS variables resolve to
+ * their fallbacks and currentColor to black. Icons painted only in
+ * currentColor are marked as template images so UIKit/SwiftUI can tint them.
+ */
+function convertToXcassetSvg(root: SvgElement): { svg: string; template: boolean; problems: string[] } {
+  const problems: string[] = [];
+  let currentPaints = 0;
+  let fixedPaints = 0;
+
+  walkSvg(root, element => {
+    const tag = localName(element);
+    if (XCASSET_UNSUPPORTED_TAGS.has(tag)) {
+      problems.push(`<${tag}> may not render in Xcode asset catalogs`);
+    }
+    for (const attribute of ['fill', 'stroke']) {
+      const value = element.attributes[attribute];
+      if (value === undefined) continue;
+      const paint = resolvePaint(value);
+      if (paint === null) {
+        if (!value.trim().toLowerCase().startsWith('url(')) {
+          problems.push(`Unsupported ${attribute} ${value}`);
+        }
+        continue;
+      }
+      if (paint === 'none') continue;
+      if (paint.current) currentPaints++; else fixedPaints++;
+      if (paint.current || /^var\(/i.test(value.trim())) {
+        element.attributes[attribute] = paint.hex;
+      }
+    }
+  });
+
+  return {
+    svg: serializeSvg(root),
+    template: currentPaints > 0 && fixedPaints === 0,
+    problems
+  };
+}
+
+/**
+ * Returns an Android resource name for a variant ("arrow-left" bold → ic_arrow_left_bold)
+ */
+function getDrawableName(iconName: string, variantKey: string): string {
+  return `ic_${iconName}_${variantKey}`.replace(/-/g, '_');
+}
+
+/**
+ * Builds android/drawable/<name>.xml for every converted variant
+ */
+function buildAndroidArchiveEntries(icons: IconData[], axes: VariantAxis[], assets: Map<string, MobileVariantAssets>): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  for (const icon of icons) {
+    for (const iconVariant of icon.variants) {
+      const variantKey = getVariantKey(iconVariant.variant, axes);
+      const asset = assets.get(`${icon.name}/${variantKey}`);
+      if (asset && asset.vectorDrawable) {
+        entries.push({
+          path: `${ANDROID_FOLDER}/drawable/${getDrawableName(icon.name, variantKey)}.xml`,
+          content: asset.vectorDrawable
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Builds an Icons.xcassets catalog: one folder per icon holding one imageset
+ * per variant, each with its own Contents.json
+ */
+function buildXcassetsArchiveEntries(icons: IconData[], axes: VariantAxis[], assets: Map<string, MobileVariantAssets>): ArchiveEntry[] {
+  const catalog = `${IOS_FOLDER}/${XCASSETS_NAME}`;
+  const info = { author: 'xcode', version: 1 };
+  const entries: ArchiveEntry[] = [
+    { path: `${catalog}/Contents.json`, content: JSON.stringify({ info }, null, 2) }
+  ];
+
+  for (const icon of icons) {
+    const imagesets: ArchiveEntry[] = [];
+    for (const iconVariant of icon.variants) {
+      const variantKey = getVariantKey(iconVariant.variant, axes);
+      const asset = assets.get(`${icon.name}/${variantKey}`);
+      if (!asset || asset.xcassetSvg === undefined) continue;
+
+      const imageName = `${icon.name}-${variantKey}`;
+      const folder = `${catalog}/${icon.name}/${imageName}.imageset`;
+      imagesets.push(
+        {
+          path: `${folder}/Contents.json`,
+          content: JSON.stringify({
+            images: [{ filename: `${imageName}.svg`, idiom: 'universal' }],
+            info,
+            properties: {
+              'preserves-vector-representation': true,
+              'template-rendering-intent': asset.template ? 'template' : 'original'
+            }
+          }, null, 2)
+        },
+        { path: `${folder}/${imageName}.svg`, content: asset.xcassetSvg }
+      );
+    }
+    if (imagesets.length > 0) {
+      entries.push({ path: `${catalog}/${icon.name}/Contents.json`, content: JSON.stringify({ info }, null, 2) });
+      entries.push(...imagesets);
+    }
+  }
+  return entries;
+}
+
+// ============================================================================
+// PNG RASTERS
+// ============================================================================
+
+/**
+ * Replaces every paint with the tint color, keeping opacities, so a tinted
+ * PNG can be rendered from the normalized SVG
+ */
+function tintSvg(root: SvgElement, color: string): void {
+  walkSvg(root, element => {
+    for (const attribute of ['fill', 'stroke']) {
+      const value = element.attributes[attribute];
+      if (value !== undefined && resolvePaint(value) !== 'none' && !/^url\(/i.test(value.trim())) {
+        element.attributes[attribute] = color;
+      }
+    }
+  });
+}
+
+/**
+ * Creates the frame tinted PNGs are rendered in, first removing any left on
+ * the page by an export that was interrupted (e.g. by closing the plugin).
+ * Figma can only render an SVG by adding it to the document; keeping the
+ * temporary nodes in one locked, out-of-the-way frame means a single removal
+ * cleans them all up. The frame stays visible so it doesn't affect exports.
+ */
+function createRasterScratchFrame(page: PageNode): FrameNode {
+  for (const child of page.children.slice()) {
+    if (child.getPluginData(RASTER_SCRATCH_PLUGIN_DATA_KEY)) child.remove();
+  }
+
+  const left = page.children.reduce((min, child) => Math.min(min, child.x), 0);
+  const frame = figma.createFrame();
+  frame.name = 'Icon export (temporary)';
+  frame.setPluginData(RASTER_SCRATCH_PLUGIN_DATA_KEY, 'true');
+  frame.fills = [];
+  frame.x = left - RASTER_SCRATCH_OFFSET;
+  frame.y = 0;
+  frame.locked = true;
+  page.appendChild(frame);
+  return frame;
+}
+
+/**
+ * Renders one PNG. Untinted rasters come straight from the component; tinted
+ * ones from a temporary node built from the tinted SVG inside the scratch
+ * frame, removed afterwards.
+ */
+async function renderRaster(source: RasterSource, pixelSize: number, tint: string | null, scratch: FrameNode | null): Promise<Uint8Array> {
+  const constraint: ExportSettingsConstraints = { type: 'WIDTH', value: pixelSize };
+  if (!tint || !scratch) {
+    return source.component.exportAsync({ format: 'PNG', constraint });
+  }
+
+  const tree = parseSvg(source.svg);
+  tintSvg(tree, tint);
+  const node = figma.createNodeFromSvg(serializeSvg(tree));
+  scratch.appendChild(node);
+  try {
+    return await node.exportAsync({ format: 'PNG', constraint });
+  } finally {
+    node.remove();
+  }
+}
+
+/**
+ * Renders every size × scale of the collected variants as
+ * png/<size>/<name>-<variant>@<scale>x.png. Failures are recorded as warnings
+ * against the component so one bad variant doesn't stop the rest.
+ */
+async function renderRasters(sources: RasterSource[], context: ExportContext): Promise<ArchiveEntry[]> {
+  const { sizes, scales, tint } = context.options.raster;
+  const jobs: { source: RasterSource; size: number; scale: number }[] = [];
+  for (const size of sizes) {
+    for (const source of sources) {
+      scales.forEach(scale => jobs.push({ source, size, scale }));
+    }
+  }
+  startProgressPhase(context, 'rendering', jobs.length);
+
+  const scratch = tint ? createRasterScratchFrame(figma.currentPage) : null;
+  try {
+    const results = await mapWithConcurrency(jobs, EXPORT_CONCURRENCY, async ({ source, size, scale }, index) => {
+      // Remaining jobs drain without rendering; the caller stops the export
+      if (cancelRequested) return null;
+      const path = `${PNG_FOLDER}/${size}/${source.icon}-${source.variantKey}@${scale}x.png`;
+      try {
+        const bytes = await renderRaster(source, size * scale, tint, scratch);
+        return { path, content: bytes } as ArchiveEntry;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        recordIssue(context.warnings, source.component, source.icon, `PNG ${size}px @${scale}x (${source.variantKey}) failed: ${reason}`);
+        return null;
+      } finally {
+        advanceProgress(context, 1, `${source.icon} (${size}px @${scale}x)`);
+        if ((index + 1) % YIELD_FREQUENCY === 0) {
+          await yieldToFigma();
+        }
+      }
+    });
+
+    return results.filter((entry): entry is ArchiveEntry => entry !== null);
+  } finally {
+    if (scratch) scratch.remove();
+  }
+}
+
+// ============================================================================
+// ICON FONT
+// ============================================================================
+
+type Point = { x: number; y: number };
+
+// Affine matrix [a, b, c, d, e, f] as in SVG's matrix()
+type Matrix = [number, number, number, number, number, number];
+
+interface PathSegment {
+  type: 'L' | 'Q' | 'C';
+  points: Point[];  // Control points followed by the end point
+}
+
+interface PathContour {
+  start: Point;
+  segments: PathSegment[];
+}
+
+interface GlyphPoint {
+  x: number;
+  y: number;
+  onCurve: boolean;
+}
+
+interface FontGlyph {
+  name: string;
+  codepoint: number;
+  contours: GlyphPoint[][];
+}
+
+const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiplyMatrices(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ];
+}
+
+function applyMatrix(m: Matrix, point: Point): Point {
+  return { x: m[0] * point.x + m[2] * point.y + m[4], y: m[1] * point.x + m[3] * point.y + m[5] };
+}
+
+/**
+ * Parses an SVG transform list into a single matrix
+ */
+function parseTransform(transform: string): Matrix {
+  let matrix = IDENTITY_MATRIX;
+  const pattern = /(\w+)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(transform))) {
+    const args = match[2].trim().split(/[\s,]+/).filter(Boolean).map(Number);
+    const [a = 0, b, c] = args;
+    let next: Matrix = IDENTITY_MATRIX;
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) next = args as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, a, b || 0];
+        break;
+      case 'scale':
+        next = [a, 0, 0, b === undefined ? a : b, 0, 0];
+        break;
+      case 'rotate': {
+        const radians = a * Math.PI / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        const cx = b || 0;
+        const cy = c || 0;
+        next = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(a * Math.PI / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(a * Math.PI / 180), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiplyMatrices(matrix, next);
+  }
+  return matrix;
+}
+
+/**
+ * Converts an elliptical arc to cubic segments (SVG implementation notes, F.6.5)
+ */
+function arcToCubics(from: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, to: Point): PathSegment[] {
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    return [{ type: 'L', points: [to] }];
+  }
+  const phi = rotation * Math.PI / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = factor * rx * y1 / ry;
+  const cyp = -factor * ry * x1 / rx;
+  const cx = cos * cxp - sin * cyp + (from.x + to.x) / 2;
+  const cy = sin * cxp + cos * cyp + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+  const theta = angle(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry);
+  let delta = angle((x1 - cxp) / rx, (y1 - cyp) / ry, (-x1 - cxp) / rx, (-y1 - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // One cubic per quarter turn at most
+  const count = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / count;
+  const k = 4 / 3 * Math.tan(step / 4);
+  const pointAt = (t: number, scale: number, dxSign: number): Point => {
+    const ex = rx * (Math.cos(t) - dxSign * scale * Math.sin(t));
+    const ey = ry * (Math.sin(t) + dxSign * scale * Math.cos(t));
+    return { x: cx + cos * ex - sin * ey, y: cy + sin * ex + cos * ey };
+  };
+
+  const segments: PathSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = theta + i * step;
+    const t2 = t1 + step;
+    segments.push({
+      type: 'C',
+      points: [pointAt(t1, k, 1), pointAt(t2, k, -1), i === count - 1 ? to : pointAt(t2, 0, 1)]
+    });
+  }
+  return segments;
+}
+
+/**
+ * Parses SVG path data into absolute contours of lines, quadratics and cubics
+ */
+function parsePathData(d: string): PathContour[] {
+  const contours: PathContour[] = [];
+  const tokens = /([MmLlHhVvCcSsQqTtAaZz])|(-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/g;
+  let index = 0;
+  let command = '';
+  let current: Point = { x: 0, y: 0 };
+  let contour: PathContour | null = null;
+  let lastControl: Point | null = null;
+  let lastType = '';
+
+  // Arc flags may be packed without separators ("a1 1 0 01 5 5"), so read them one character at a time
+  const skipSeparators = () => {
+    while (index < d.length && /[\s,]/.test(d[index])) index++;
+  };
+  const readNumber = (): number => {
+    skipSeparators();
+    tokens.lastIndex = index;
+    const match = tokens.exec(d);
+    if (!match || match.index !== index || match[2] === undefined) {
+      throw new Error(`Invalid path data near "${d.slice(index, index + 10)}"`);
+    }
+    index = tokens.lastIndex;
+    return parseFloat(match[2]);
+  };
+  const readFlag = (): boolean => {
+    skipSeparators();
+    const flag = d[index++];
+    if (flag !== '0' && flag !== '1') {
+      throw new Error(`Invalid arc flag near "${d.slice(index - 1, index + 9)}"`);
+    }
+    return flag === '1';
+  };
+  const hasNumber = () => {
+    skipSeparators();
+    return index < d.length && /[-.\d]/.test(d[index]);
+  };
+  const add = (segment: PathSegment) => {
+    if (!contour) {
+      contour = { start: current, segments: [] };
+      contours.push(contour);
+    }
+    contour.segments.push(segment);
+    current = segment.points[segment.points.length - 1];
+  };
+
+  while (true) {
+    skipSeparators();
+    if (index >= d.length) break;
+    if (/[A-Za-z]/.test(d[index])) {
+      command = d[index++];
+    } else if (!command) {
+      throw new Error('Path data must start with a command');
+    }
+    const relative = command === command.toLowerCase();
+    const point = (x: number, y: number): Point => relative ? { x: current.x + x, y: current.y + y } : { x, y };
+    const upper = command.toUpperCase();
+    let control: Point | null = null;
+
+    switch (upper) {
+      case 'M':
+        current = point(readNumber(), readNumber());
+        contour = { start: current, segments: [] };
+        contours.push(contour);
+        // Further pairs after a moveto are implicit linetos
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        add({ type: 'L', points: [point(readNumber(), readNumber())] });
+        break;
+      case 'H': {
+        const x = readNumber();
+        add({ type: 'L', points: [{ x: relative ? current.x + x : x, y: current.y }] });
+        break;
+      }
+      case 'V': {
+        const y = readNumber();
+        add({ type: 'L', points: [{ x: current.x, y: relative ? current.y + y : y }] });
+        break;
+      }
+      case 'C': {
+        const c1 = point(readNumber(), readNumber());
+        const c2 = point(readNumber(), readNumber());
+        add({ type: 'C', points: [c1, c2, point(readNumber(), readNumber())] });
+        control = c2;
+        break;
+      }
+      case 'S': {
+        const c1: Point = lastControl && (lastType === 'C' || lastType === 'S')
+          ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+          : current;
+        const c2 = point(readNumber(), readNumber());
+        add({ type: 'C', points: [c1, c2, point(readNumber(), readNumber())] });
+        control = c2;
+        break;
+      }
+      case 'Q': {
+        const c = point(readNumber(), readNumber());
+        add({ type: 'Q', points: [c, point(readNumber(), readNumber())] });
+        control = c;
+        break;
+      }
+      case 'T': {
+        const c: Point = lastControl && (lastType === 'Q' || lastType === 'T')
+          ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+          : current;
+        add({ type: 'Q', points: [c, point(readNumber(), readNumber())] });
+        control = c;
+        break;
+      }
+      case 'A': {
+        const rx = readNumber();
+        const ry = readNumber();
+        const rotation = readNumber();
+        const largeArc = readFlag();
+        const sweep = readFlag();
+        const to = point(readNumber(), readNumber());
+        arcToCubics(current, rx, ry, rotation, largeArc, sweep, to).forEach(add);
+        break;
+      }
+      case 'Z':
+        if (contour) {
+          current = contour.start;
+        }
+        contour = null;
+        break;
+      default:
+        throw new Error(`Unsupported path command "${command}"`);
+    }
+
+    lastControl = control;
+    lastType = upper;
+    if (upper === 'Z' && hasNumber()) {
+      throw new Error('Unexpected number after closepath');
+    }
+  }
+
+  return contours.filter(candidate => candidate.segments.length > 0);
+}
+
+/**
+ * Approximates a cubic with quadratics, splitting until each piece is within
+ * the tolerance (in font units)
+ */
+function cubicToQuadratics(p0: Point, c1: Point, c2: Point, p3: Point, tolerance: number): GlyphPoint[] {
+  // Error of a single quadratic approximation, which falls with the cube of the split count
+  const error = Math.hypot(p3.x - 3 * c2.x + 3 * c1.x - p0.x, p3.y - 3 * c2.y + 3 * c1.y - p0.y) * Math.sqrt(3) / 36;
+  const pieces = Math.max(1, Math.min(16, Math.ceil(Math.cbrt(error / tolerance))));
+  const points: GlyphPoint[] = [];
+  const at = (t: number): Point => {
+    const mt = 1 - t;
+    return {
+      x: mt * mt * mt * p0.x + 3 * mt * mt * t * c1.x + 3 * mt * t * t * c2.x + t * t * t * p3.x,
+      y: mt * mt * mt * p0.y + 3 * mt * mt * t * c1.y + 3 * mt * t * t * c2.y + t * t * t * p3.y
+    };
+  };
+  const derivative = (t: number): Point => {
+    const mt = 1 - t;
+    return {
+      x: 3 * (mt * mt * (c1.x - p0.x) + 2 * mt * t * (c2.x - c1.x) + t * t * (p3.x - c2.x)),
+      y: 3 * (mt * mt * (c1.y - p0.y) + 2 * mt * t * (c2.y - c1.y) + t * t * (p3.y - c2.y))
+    };
+  };
+
+  for (let i = 0; i < pieces; i++) {
+    const t0 = i / pieces;
+    const t1 = (i + 1) / pieces;
+    const start = at(t0);
+    const end = at(t1);
+    const d0 = derivative(t0);
+    const d1 = derivative(t1);
+    const h = (t1 - t0) / 2;
+    // Average the control points implied by each end's tangent
+    points.push(
+      { x: (start.x + d0.x * h + end.x - d1.x * h) / 2, y: (start.y + d0.y * h + end.y - d1.y * h) / 2, onCurve: false },
+      { x: end.x, y: end.y, onCurve: true }
+    );
+  }
+  return points;
+}
+
+/**
+ * Signed area of a contour (positive when counter-clockwise in y-up space)
+ */
+function contourArea(points: GlyphPoint[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+function isPointInContour(point: GlyphPoint, contour: GlyphPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = contour.length - 1; i < contour.length; j = i++) {
+    const a = contour[i];
+    const b = contour[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Converts an icon SVG into TrueType contours in font units (y up). Fills
+ * only: fonts can't draw strokes, clip paths, masks or opacity, so those are
+ * listed in problems. TrueType always fills with the nonzero rule, so
+ * even-odd paths have their contours re-oriented by nesting depth.
+ */
+function svgToGlyphContours(root: SvgElement, unitsPerEm: number, problems: string[]): GlyphPoint[][] {
+  const viewBox = (root.attributes.viewBox || REQUIRED_VIEWBOX).trim().split(/[\s,]+/).map(Number);
+  const [minX, minY, width, height] = viewBox.length === 4 && viewBox.every(value => !isNaN(value)) ? viewBox : [0, 0, 24, 24];
+  const scale = unitsPerEm / Math.max(width, height);
+  // SVG is y-down from the viewBox origin; fonts are y-up from the baseline
+  const toFont: Matrix = [scale, 0, 0, -scale, -minX * scale, (minY + height) * scale];
+  const glyphContours: GlyphPoint[][] = [];
+
+  const visit = (element: SvgElement, matrix: Matrix, inherited: { [name: string]: string }) => {
+    const tag = localName(element);
+    if (IGNORED_VECTOR_TAGS.has(tag) || REFERENCE_CONTAINER_TAGS.has(tag)) return;
+
+    const style = { ...inherited };
+    ['fill', 'fill-rule', 'stroke'].forEach(key => {
+      if (element.attributes[key] !== undefined) style[key] = element.attributes[key];
+    });
+    const transform = element.attributes.transform ? multiplyMatrices(matrix, parseTransform(element.attributes.transform)) : matrix;
+    if (element.attributes['clip-path'] || element.attributes.mask) {
+      problems.push('Clip paths and masks are ignored in the font');
+    }
+    if (parseFloat(element.attributes.opacity || element.attributes['fill-opacity'] || '1') < 1) {
+      problems.push('Translucent paints are drawn opaque in the font');
+    }
+
+    if (tag === 'svg' || tag === 'g') {
+      element.children.forEach(child => {
+        if (child.type === 'element') visit(child, transform, style);
+      });
+      return;
+    }
+
+    const d = shapeToPathData(element);
+    if (d === null) {
+      problems.push(`Unsupported <${tag}> element; skipped`);
+      return;
+    }
+    const stroke = resolvePaint(style.stroke || 'none');
+    if (stroke !== 'none') {
+      problems.push('Strokes are not included in the font; outline them in Figma');
+    }
+    if (resolvePaint(style.fill || 'black') === 'none') return;
+
+    const contours = parsePathData(d).map(contour => {
+      const m = multiplyMatrices(toFont, transform);
+      const points: GlyphPoint[] = [];
+      let previous = applyMatrix(m, contour.start);
+      points.push({ ...previous, onCurve: true });
+      for (const segment of contour.segments) {
+        const mapped = segment.points.map(segmentPoint => applyMatrix(m, segmentPoint));
+        if (segment.type === 'L') {
+          points.push({ ...mapped[0], onCurve: true });
+        } else if (segment.type === 'Q') {
+          points.push({ ...mapped[0], onCurve: false }, { ...mapped[1], onCurve: true });
+        } else {
+          points.push(...cubicToQuadratics(previous, mapped[0], mapped[1], mapped[2], 0.5));
+        }
+        previous = mapped[mapped.length - 1];
+      }
+      // Round to the font grid and drop the duplicated closing point and repeated points
+      const rounded = points.map(glyphPoint => ({ x: Math.round(glyphPoint.x), y: Math.round(glyphPoint.y), onCurve: glyphPoint.onCurve }));
+      return rounded.filter((glyphPoint, i) => {
+        const next = rounded[(i + 1) % rounded.length];
+        return !(glyphPoint.onCurve && next.onCurve && next.x === glyphPoint.x && next.y === glyphPoint.y && rounded.length > 1);
+      });
+    }).filter(points => points.length >= 3 && contourArea(points) !== 0);
+
+    if (style['fill-rule'] === 'evenodd') {
+      // Outer contours clockwise, holes counter-clockwise, alternating by depth
+      contours.forEach(points => {
+        const depth = contours.filter(other => other !== points && isPointInContour(points[0], other)).length;
+        const clockwise = contourArea(points) < 0;
+        if (clockwise !== (depth % 2 === 0)) points.reverse();
+      });
+    } else if (contours.length > 0) {
+      // Keep the path's own winding, but make its largest (outer) contour clockwise
+      const outer = contours.reduce((largest, points) => Math.abs(contourArea(points)) > Math.abs(contourArea(largest)) ? points : largest);
+      if (contourArea(outer) > 0) contours.forEach(points => points.reverse());
+    }
+    glyphContours.push(...contours);
+  };
+
+  visit(root, IDENTITY_MATRIX, {});
+  return glyphContours;
+}
+
+function pushUint8(bytes: number[], value: number): void {
+  bytes.push(value & 0xff);
+}
+
+function pushUint16(bytes: number[], value: number): void {
+  bytes.push((value >> 8) & 0xff, value & 0xff);
+}
+
+function pushUint32(bytes: number[], value: number): void {
+  bytes.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+}
+
+function pushBytes(bytes: number[], source: ArrayLike<number>): void {
+  // Spreading large tables into push() would overflow the call stack
+  for (let i = 0; i < source.length; i++) bytes.push(source[i]);
+}
+
+function pushTag(bytes: number[], tag: string): void {
+  for (let i = 0; i < 4; i++) bytes.push(tag.charCodeAt(i));
+}
+
+function encodeUTF16BE(input: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < input.length; i++) pushUint16(bytes, input.charCodeAt(i));
+  return bytes;
+}
+
+/**
+ * OpenType table checksum: sum of big-endian uint32s, zero-padded
+ */
+function tableChecksum(bytes: number[] | Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < bytes.length; i += 4) {
+    sum = (sum + ((bytes[i] << 24) | ((bytes[i + 1] || 0) << 16) | ((bytes[i + 2] || 0) << 8) | (bytes[i + 3] || 0))) >>> 0;
+  }
+  return sum;
+}
+
+/**
+ * Encodes one simple glyph for the glyf table, with int16 coordinate deltas
+ */
+function encodeGlyph(contours: GlyphPoint[][]): number[] {
+  const bytes: number[] = [];
+  if (contours.length === 0) return bytes;
+  const points = contours.reduce<GlyphPoint[]>((all, contour) => all.concat(contour), []);
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+
+  pushUint16(bytes, contours.length);
+  [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)].forEach(value => pushUint16(bytes, value));
+  let end = -1;
+  contours.forEach(contour => {
+    end += contour.length;
+    pushUint16(bytes, end);
+  });
+  pushUint16(bytes, 0);  // No hinting instructions
+  points.forEach(point => pushUint8(bytes, point.onCurve ? 1 : 0));
+  let previous = 0;
+  xs.forEach(x => { pushUint16(bytes, x - previous); previous = x; });
+  previous = 0;
+  ys.forEach(y => { pushUint16(bytes, y - previous); previous = y; });
+  while (bytes.length % 4 !== 0) bytes.push(0);
+  return bytes;
+}
+
+/**
+ * Builds a TrueType font with one glyph per icon (plus .notdef), mapped to
+ * its codepoint. Glyphs are square, unitsPerEm wide, sitting on the baseline.
+ */
+function createTrueTypeFont(glyphs: FontGlyph[], familyName: string, unitsPerEm: number, createdAt: Date): Uint8Array {
+  const sorted = glyphs.slice().sort((a, b) => a.codepoint - b.codepoint);
+  const encoded = [[] as number[], ...sorted.map(glyph => encodeGlyph(glyph.contours))];
+  const bounds = { xMin: Infinity, yMin: Infinity, xMax: -Infinity, yMax: -Infinity };
+  sorted.forEach(glyph => glyph.contours.forEach(contour => contour.forEach(point => {
+    bounds.xMin = Math.min(bounds.xMin, point.x);
+    bounds.yMin = Math.min(bounds.yMin, point.y);
+    bounds.xMax = Math.max(bounds.xMax, point.x);
+    bounds.yMax = Math.max(bounds.yMax, point.y);
+  })));
+  if (bounds.xMin === Infinity) {
+    bounds.xMin = bounds.yMin = bounds.xMax = bounds.yMax = 0;
+  }
+  const numGlyphs = encoded.length;
+  // Seconds between 1904-01-01 and 1970-01-01, the two epochs involved
+  const timestamp = Math.floor(createdAt.getTime() / 1000) + 2082844800;
+
+  const head: number[] = [];
+  pushUint32(head, 0x00010000);
+  pushUint32(head, 0x00010000);  // fontRevision 1.0
+  pushUint32(head, 0);           // checkSumAdjustment, patched below
+  pushUint32(head, 0x5f0f3cf5);
+  pushUint16(head, 0x000b);
+  pushUint16(head, unitsPerEm);
+  for (let i = 0; i < 2; i++) {
+    pushUint32(head, Math.floor(timestamp / 0x100000000));
+    pushUint32(head, timestamp >>> 0);
+  }
+  [bounds.xMin, bounds.yMin, bounds.xMax, bounds.yMax].forEach(value => pushUint16(head, value));
+  pushUint16(head, 0);  // macStyle
+  pushUint16(head, 8);  // lowestRecPPEM
+  pushUint16(head, 2);  // fontDirectionHint
+  pushUint16(head, 1);  // indexToLocFormat: long offsets
+  pushUint16(head, 0);
+
+  const hhea: number[] = [];
+  pushUint32(hhea, 0x00010000);
+  pushUint16(hhea, unitsPerEm);  // ascender
+  pushUint16(hhea, 0);           // descender
+  pushUint16(hhea, 0);           // lineGap
+  pushUint16(hhea, unitsPerEm);  // advanceWidthMax
+  pushUint16(hhea, bounds.xMin);
+  pushUint16(hhea, unitsPerEm - bounds.xMax);
+  pushUint16(hhea, bounds.xMax);
+  pushUint16(hhea, 1);
+  pushUint16(hhea, 0);
+  for (let i = 0; i < 5; i++) pushUint16(hhea, 0);
+  pushUint16(hhea, 0);
+  pushUint16(hhea, numGlyphs);
+
+  const maxp: number[] = [];
+  pushUint32(maxp, 0x00010000);
+  pushUint16(maxp, numGlyphs);
+  pushUint16(maxp, Math.max(0, ...sorted.map(glyph => glyph.contours.reduce((sum, contour) => sum + contour.length, 0))));
+  pushUint16(maxp, Math.max(0, ...sorted.map(glyph => glyph.contours.length)));
+  pushUint16(maxp, 0);
+  pushUint16(maxp, 0);
+  pushUint16(maxp, 2);  // maxZones
+  for (let i = 0; i < 8; i++) pushUint16(maxp, 0);
+
+  const firstChar = sorted.length > 0 ? sorted[0].codepoint : 0;
+  const lastChar = sorted.length > 0 ? sorted[sorted.length - 1].codepoint : 0;
+  const os2: number[] = [];
+  pushUint16(os2, 4);
+  pushUint16(os2, unitsPerEm);  // xAvgCharWidth
+  pushUint16(os2, 400);         // usWeightClass
+  pushUint16(os2, 5);           // usWidthClass
+  pushUint16(os2, 0);           // fsType: installable
+  [650, 600, 0, 75, 650, 600, 0, 350, 50, 260].forEach(value => pushUint16(os2, Math.round(value * unitsPerEm / 1000)));
+  pushUint16(os2, 0);  // sFamilyClass
+  for (let i = 0; i < 10; i++) pushUint8(os2, 0);
+  pushUint32(os2, 0);
+  pushUint32(os2, 1 << 28);  // Bit 60: Private Use Area
+  pushUint32(os2, 0);
+  pushUint32(os2, 0);
+  pushTag(os2, 'NONE');
+  pushUint16(os2, 0x0040);  // fsSelection: REGULAR
+  pushUint16(os2, firstChar);
+  pushUint16(os2, lastChar);
+  pushUint16(os2, unitsPerEm);  // sTypoAscender
+  pushUint16(os2, 0);
+  pushUint16(os2, 0);
+  pushUint16(os2, unitsPerEm);  // usWinAscent
+  pushUint16(os2, 0);
+  pushUint32(os2, 1);
+  pushUint32(os2, 0);
+  pushUint16(os2, 0);
+  pushUint16(os2, 0);
+  pushUint16(os2, 0);
+  pushUint16(os2, 32);
+  pushUint16(os2, 0);
+
+  const hmtx: number[] = [];
+  pushUint16(hmtx, unitsPerEm);
+  pushUint16(hmtx, 0);
+  sorted.forEach(glyph => {
+    pushUint16(hmtx, unitsPerEm);
+    const xs = glyph.contours.reduce<number[]>((all, contour) => all.concat(contour.map(point => point.x)), []);
+    pushUint16(hmtx, xs.length > 0 ? Math.min(...xs) : 0);
+  });
+
+  // cmap format 4: one segment per glyph plus the required 0xFFFF terminator
+  const segments = sorted.map((glyph, index) => ({ start: glyph.codepoint, end: glyph.codepoint, glyphId: index + 1 }));
+  const segCount = segments.length + 1;
+  const searchPower = Math.pow(2, Math.floor(Math.log2(segCount)));
+  const subtable: number[] = [];
+  pushUint16(subtable, 4);
+  pushUint16(subtable, 16 + segCount * 8);
+  pushUint16(subtable, 0);
+  pushUint16(subtable, segCount * 2);
+  pushUint16(subtable, searchPower * 2);
+  pushUint16(subtable, Math.log2(searchPower));
+  pushUint16(subtable, segCount * 2 - searchPower * 2);
+  segments.forEach(segment => pushUint16(subtable, segment.end));
+  pushUint16(subtable, 0xffff);
+  pushUint16(subtable, 0);
+  segments.forEach(segment => pushUint16(subtable, segment.start));
+  pushUint16(subtable, 0xffff);
+  segments.forEach(segment => pushUint16(subtable, (segment.glyphId - segment.start) & 0xffff));
+  pushUint16(subtable, 1);
+  for (let i = 0; i < segCount; i++) pushUint16(subtable, 0);
+  const cmap: number[] = [];
+  pushUint16(cmap, 0);
+  pushUint16(cmap, 2);
+  [[0, 3], [3, 1]].forEach(([platform, encoding]) => {
+    pushUint16(cmap, platform);
+    pushUint16(cmap, encoding);
+    pushUint32(cmap, 4 + 2 * 8);
+  });
+  pushBytes(cmap, subtable);
+
+  const glyf: number[] = [];
+  const loca: number[] = [];
+  encoded.forEach(glyph => {
+    pushUint32(loca, glyf.length);
+    pushBytes(glyf, glyph);
+  });
+  pushUint32(loca, glyf.length);
+
+  const nameRecords = [
+    [1, familyName],
+    [2, 'Regular'],
+    [3, `${familyName}:${createdAt.toISOString()}`],
+    [4, familyName],
+    [5, 'Version 1.0'],
+    [6, familyName.replace(/[^A-Za-z0-9-]/g, '')]
+  ] as [number, string][];
+  const nameStrings = nameRecords.map(([, value]) => encodeUTF16BE(value));
+  const name: number[] = [];
+  pushUint16(name, 0);
+  pushUint16(name, nameRecords.length);
+  pushUint16(name, 6 + nameRecords.length * 12);
+  let stringOffset = 0;
+  nameRecords.forEach(([nameId], index) => {
+    pushUint16(name, 3);
+    pushUint16(name, 1);
+    pushUint16(name, 0x0409);
+    pushUint16(name, nameId);
+    pushUint16(name, nameStrings[index].length);
+    pushUint16(name, stringOffset);
+    stringOffset += nameStrings[index].length;
+  });
+  nameStrings.forEach(bytes => pushBytes(name, bytes));
+
+  const post: number[] = [];
+  pushUint32(post, 0x00030000);  // Version 3: no glyph names
+  pushUint32(post, 0);
+  pushUint16(post, Math.round(-unitsPerEm / 10));
+  pushUint16(post, Math.round(unitsPerEm / 20));
+  for (let i = 0; i < 5; i++) pushUint32(post, 0);
+
+  const tables: [string, number[]][] = ([
+    ['OS/2', os2], ['cmap', cmap], ['glyf', glyf], ['head', head], ['hhea', hhea],
+    ['hmtx', hmtx], ['loca', loca], ['maxp', maxp], ['name', name], ['post', post]
+  ] as [string, number[]][]);
+
+  const font: number[] = [];
+  const tablePower = Math.pow(2, Math.floor(Math.log2(tables.length)));
+  pushUint32(font, 0x00010000);
+  pushUint16(font, tables.length);
+  pushUint16(font, tablePower * 16);
+  pushUint16(font, Math.log2(tablePower));
+  pushUint16(font, tables.length * 16 - tablePower * 16);
+  let offset = 12 + tables.length * 16;
+  tables.forEach(([tag, data]) => {
+    pushTag(font, tag);
+    pushUint32(font, tableChecksum(data));
+    pushUint32(font, offset);
+    pushUint32(font, data.length);
+    offset += Math.ceil(data.length / 4) * 4;
+  });
+  let headOffset = 0;
+  tables.forEach(([tag, data]) => {
+    if (tag === 'head') headOffset = font.length;
+    pushBytes(font, data);
+    while (font.length % 4 !== 0) font.push(0);
+  });
+
+  const bytes = new Uint8Array(font);
+  new DataView(bytes.buffer).setUint32(headOffset + 8, (0xb1b0afba - tableChecksum(bytes)) >>> 0);
+  return bytes;
+}
+
+/**
+ * Wraps a TrueType font in WOFF2. Tables are stored untransformed in a
+ * Brotli stream made of uncompressed meta-blocks, which every WOFF2 reader
+ * accepts and needs no compressor in the plugin sandbox.
+ */
+function createWoff2Font(ttf: Uint8Array): Uint8Array {
+  const view = new DataView(ttf.buffer, ttf.byteOffset, ttf.byteLength);
+  const numTables = view.getUint16(4);
+  const knownTags = ['cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca'];
+  const tables: { tag: string; data: Uint8Array }[] = [];
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(ttf[record], ttf[record + 1], ttf[record + 2], ttf[record + 3]);
+    const offset = view.getUint32(record + 8);
+    tables.push({ tag, data: ttf.subarray(offset, offset + view.getUint32(record + 12)) });
+  }
+  // loca must directly follow glyf
+  tables.sort((a, b) => (a.tag === 'loca' ? 'glyf~' : a.tag) < (b.tag === 'loca' ? 'glyf~' : b.tag) ? -1 : 1);
+
+  const base128 = (value: number) => {
+    const bytes: number[] = [value & 0x7f];
+    for (value = Math.floor(value / 128); value > 0; value = Math.floor(value / 128)) {
+      bytes.unshift(0x80 | (value & 0x7f));
+    }
+    return bytes;
+  };
+  const directory: number[] = [];
+  tables.forEach(({ tag, data }) => {
+    const known = knownTags.indexOf(tag);
+    // Transform version 3 is the null transform for glyf/loca; 0 is the null transform for the rest
+    const version = tag === 'glyf' || tag === 'loca' ? 3 : 0;
+    pushUint8(directory, (known === -1 ? 63 : known) | (version << 6));
+    if (known === -1) pushTag(directory, tag);
+    directory.push(...base128(data.length));
+  });
+
+  const raw: number[] = [];
+  tables.forEach(({ data }) => pushBytes(raw, data));
+
+  // Brotli stream: WBITS=16, then uncompressed meta-blocks of up to 64 KiB, then an empty last block
+  const brotli: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const writeBits = (value: number, count: number) => {
+    bitBuffer |= value << bitCount;
+    bitCount += count;
+    while (bitCount >= 8) {
+      brotli.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+  const flushBits = () => {
+    if (bitCount > 0) brotli.push(bitBuffer & 0xff);
+    bitBuffer = 0;
+    bitCount = 0;
+  };
+  writeBits(0, 1);
+  for (let start = 0; start < raw.length; start += 0x10000) {
+    const chunk = raw.slice(start, start + 0x10000);
+    writeBits(0, 1);                 // ISLAST
+    writeBits(0, 2);                 // MNIBBLES = 4
+    writeBits(chunk.length - 1, 16); // MLEN - 1
+    writeBits(1, 1);                 // ISUNCOMPRESSED
+    flushBits();
+    pushBytes(brotli, chunk);
+  }
+  writeBits(1, 1);  // ISLAST
+  writeBits(1, 1);  // ISLASTEMPTY
+  flushBits();
+
+  const length = Math.ceil((48 + directory.length + brotli.length) / 4) * 4;
+  const header: number[] = [];
+  pushTag(header, 'wOF2');
+  pushUint32(header, 0x00010000);
+  pushUint32(header, length);
+  pushUint16(header, tables.length);
+  pushUint16(header, 0);
+  pushUint32(header, ttf.length);
+  pushUint32(header, brotli.length);
+  pushUint16(header, 1);
+  pushUint16(header, 0);
+  for (let i = 0; i < 5; i++) pushUint32(header, 0);
+
+  const woff2 = new Uint8Array(length);
+  woff2.set(header, 0);
+  woff2.set(directory, 48);
+  woff2.set(brotli, 48 + directory.length);
+  return woff2;
+}
+
+/**
+ * Builds an SVG font (still used by some legacy tooling) from the same glyphs
+ */
+function createSvgFont(glyphs: FontGlyph[], familyName: string, unitsPerEm: number): string {
+  const toPathData = (contour: GlyphPoint[]) => {
+    const parts = [`M${contour[0].x} ${contour[0].y}`];
+    for (let i = 1; i < contour.length; i++) {
+      const point = contour[i];
+      if (point.onCurve) {
+        parts.push(`L${point.x} ${point.y}`);
+      } else {
+        const next = contour[(i + 1) % contour.length];
+        parts.push(`Q${point.x} ${point.y} ${next.x} ${next.y}`);
+        i++;
+      }
+    }
+    return `${parts.join('')}Z`;
+  };
+  const glyphElements = glyphs
+    .slice()
+    .sort((a, b) => a.codepoint - b.codepoint)
+    .map(glyph => `    <glyph glyph-name="${escapeXmlAttribute(glyph.name)}" unicode="&#x${glyph.codepoint.toString(16)};" horiz-adv-x="${unitsPerEm}" d="${glyph.contours.map(toPathData).join('')}"/>`);
+
+  return [
+    '<?xml version="1.0" standalone="no"?>',
+    '<svg xmlns="http://www.w3.org/2000/svg">',
+    '  <defs>',
+    `  <font id="${escapeXmlAttribute(familyName)}" horiz-adv-x="${unitsPerEm}">`,
+    `    <font-face font-family="${escapeXmlAttribute(familyName)}" units-per-em="${unitsPerEm}" ascent="${unitsPerEm}" descent="0"/>`,
+    `    <missing-glyph horiz-adv-x="${unitsPerEm}"/>`,
+    ...glyphElements,
+    '  </font>',
+    '  </defs>',
+    '</svg>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Generates the @font-face rule and one .icon-<name> class per glyph
+ */
+function createFontCss(glyphs: FontGlyph[], familyName: string): string {
+  const rules = glyphs
+    .slice()
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(glyph => `.icon-${glyph.name}::before {\n  content: "\\${glyph.codepoint.toString(16)}";\n}`);
+
+  return [
+    '@font-face {',
+    `  font-family: "${familyName}";`,
+    `  src: url("${familyName}.woff2") format("woff2"),`,
+    `    url("${familyName}.ttf") format("truetype"),`,
+    `    url("${familyName}.svg#${familyName}") format("svg");`,
+    '  font-weight: normal;',
+    '  font-style: normal;',
+    '  font-display: block;',
+    '}',
+    '',
+    '.icon {',
+    `  font-family: "${familyName}" !important;`,
+    '  font-style: normal;',
+    '  font-weight: normal;',
+    '  font-variant: normal;',
+    '  line-height: 1;',
+    '  speak: never;',
+    '  text-transform: none;',
+    '  -webkit-font-smoothing: antialiased;',
+    '  -moz-osx-font-smoothing: grayscale;',
+    '}',
+    '',
+    ...rules.map(rule => `${rule}\n`)
+  ].join('\n');
+}
+
+/**
+ * Loads the codepoints saved on the document (icon name → codepoint)
+ */
+function loadFontCodepoints(): { [name: string]: number } {
+  const saved = figma.root.getPluginData(FONT_CODEPOINTS_PLUGIN_DATA_KEY);
+  if (!saved) return {};
+  try {
+    const parsed = JSON.parse(saved);
+    const codepoints: { [name: string]: number } = {};
+    Object.keys(parsed).forEach(name => {
+      if (Number.isInteger(parsed[name])) codepoints[name] = parsed[name];
+    });
+    return codepoints;
+  } catch (error) {
+    console.warn('Ignoring invalid saved font codepoints:', error);
+    return {};
+  }
+}
+
+/**
+ * Assigns Private Use Area codepoints. Saved codepoints win, then those in the
+ * previous export; new icons get the next free codepoint after the highest
+ * one ever used. Codepoints of removed icons stay reserved so no glyph ever
+ * moves or is reused.
+ */
+function assignCodepoints(names: string[], saved: { [name: string]: number }, previousExport: IconsExport | null): { [name: string]: number } {
+  const codepoints: { [name: string]: number } = { ...saved };
+  const taken = new Set(Object.values(codepoints));
+
+  const previousIcons = previousExport ? previousExport.icons : [];
+  previousIcons.forEach(icon => {
+    const codepoint = icon && typeof icon.codepoint === 'string' ? parseInt(icon.codepoint, 16) : NaN;
+    if (icon && !(icon.name in codepoints) && !isNaN(codepoint) && !taken.has(codepoint)) {
+      codepoints[icon.name] = codepoint;
+      taken.add(codepoint);
+    }
+  });
+
+  let next = Math.max(FONT_FIRST_CODEPOINT - 1, ...Array.from(taken)) + 1;
+  names.slice().sort().forEach(name => {
+    if (name in codepoints) return;
+    if (next > FONT_LAST_CODEPOINT) {
+      throw new Error('Icon font is out of Private Use Area codepoints (U+E000–U+F8FF)');
+    }
+    codepoints[name] = next++;
+    taken.add(codepoints[name]);
+  });
+  return codepoints;
+}
+
+/**
+ * Builds the font files from the chosen variant of each icon, stamps each
+ * included icon with its codepoint and saves the codepoints on the document
+ */
+function buildIconFont(icons: IconData[], context: ExportContext): ArchiveEntry[] {
+  const { font } = context.options;
+  const variantKey = font.variant || getDefaultVariantKey(context.axes);
+  const glyphs: FontGlyph[] = [];
+  const included: IconData[] = [];
+
+  icons.forEach(icon => {
+    const node = context.iconNodes.get(icon.name);
+    const report = (message: string) => {
+      if (node) recordIssue(context.warnings, node, icon.name, `Font: ${message}`);
+    };
+    const iconVariant = icon.variants.find(candidate => getVariantKey(candidate.variant, context.axes) === variantKey);
+    if (!iconVariant) {
+      report(`no "${variantKey}" variant; left out of the font`);
+      return;
+    }
+    try {
+      const problems: string[] = [];
+      const contours = svgToGlyphContours(parseSvg(iconVariant.svg), FONT_UNITS_PER_EM, problems);
+      Array.from(new Set(problems)).forEach(report);
+      glyphs.push({ name: icon.name, codepoint: 0, contours });
+      included.push(icon);
+    } catch (error) {
+      report(`${error instanceof Error ? error.message : String(error)}; left out of the font`);
+    }
+  });
+
+  const codepoints = assignCodepoints(included.map(icon => icon.name), loadFontCodepoints(), context.previousExport);
+  figma.root.setPluginData(FONT_CODEPOINTS_PLUGIN_DATA_KEY, JSON.stringify(codepoints));
+  glyphs.forEach(glyph => { glyph.codepoint = codepoints[glyph.name]; });
+  included.forEach(icon => { icon.codepoint = codepoints[icon.name].toString(16); });
+
+  const ttf = createTrueTypeFont(glyphs, font.familyName, FONT_UNITS_PER_EM, new Date());
+  const codepointMap: { [name: string]: string } = {};
+  glyphs
+    .slice()
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(glyph => { codepointMap[glyph.name] = glyph.codepoint.toString(16); });
+
+  const folder = `${FONT_FOLDER}/${font.familyName}`;
+  return [
+    { path: `${folder}.ttf`, content: ttf },
+    { path: `${folder}.woff2`, content: createWoff2Font(ttf) },
+    { path: `${folder}.svg`, content: createSvgFont(glyphs, font.familyName, FONT_UNITS_PER_EM) },
+    { path: `${folder}.css`, content: createFontCss(glyphs, font.familyName) },
+    { path: `${FONT_FOLDER}/codepoints.json`, content: JSON.stringify(codepointMap, null, 2) }
+  ];
+}
+
+// ============================================================================
+// JSON SCHEMA
+// ============================================================================
+
+/**
+ * Builds the JSON Schema (draft 2020-12) describing icons-export.json for the
+ * current SCHEMA_VERSION. It ships in every download next to the export.
+ */
+function createIconsExportSchema(): JsonSchema {
+  const hash = { type: 'string', pattern: `^[0-9a-f]{${MIN_HASH_LENGTH},${MAX_HASH_LENGTH}}$` };
+  const strings = { type: 'array', items: { type: 'string' } };
+  const variantValue = { type: ['string', 'boolean'] };
+  const iconName = { type: 'string', pattern: '^[a-z0-9]+(-[a-z0-9]+)*$' };
+  const object = (properties: { [name: string]: JsonSchema }, optional: string[] = []): JsonSchema => ({
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter(name => !optional.includes(name)),
+    additionalProperties: false
+  });
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `urn:stera-icons:icons-export:${SCHEMA_VERSION}`,
+    title: `Stera icons export ${SCHEMA_VERSION}`,
+    ...object({
+      $schema: { type: 'string' },
+      schemaVersion: { const: SCHEMA_VERSION },
+      exportedAt: { type: 'string', format: 'date-time' },
+      hashAlgorithm: { const: HASH_ALGORITHM },
+      hashLength: { type: 'integer', minimum: MIN_HASH_LENGTH, maximum: MAX_HASH_LENGTH },
+      processing: {
+        ...object({
+          optimization: object({
+            passes: { type: 'array', items: { enum: OPTIMIZATION_PASSES.map(pass => pass.id) } },
+            precision: { type: 'integer', minimum: 0, maximum: MAX_PRECISION }
+          }),
+          colorization: object({
+            enabled: { type: 'boolean' },
+            secondaryLayerName: { type: 'string' },
+            secondaryColorVariable: { type: 'string' },
+            secondaryOpacity: { type: 'number', minimum: 0, maximum: 1 }
+          }),
+          strokes: object({
+            preserve: { type: 'boolean' },
+            linecap: { enum: ['butt', 'round', 'square'] },
+            linejoin: { enum: ['miter', 'round', 'bevel'] }
+          })
+        }),
+        type: ['object', 'null']
+      },
+      totalIcons: { type: 'integer', minimum: 0 },
+      variantAxes: { type: 'array', items: object({ key: { type: 'string' }, values: { type: 'array', items: variantValue } }) },
+      validation: object({
+        errors: { type: 'integer', minimum: 0 },
+        warnings: { type: 'integer', minimum: 0 },
+        findings: { type: 'array', items: { $ref: '#/$defs/lintFinding' } }
+      }),
+      errors: { type: 'array', items: { $ref: '#/$defs/issue' } },
+      warnings: { type: 'array', items: { $ref: '#/$defs/issue' } },
+      icons: { type: 'array', items: { $ref: '#/$defs/icon' } }
+    }),
+    $defs: {
+      lintFinding: object({
+        rule: { type: 'string' },
+        severity: { enum: ['error', 'warning'] },
+        message: { type: 'string' },
+        icon: { type: 'string' },
+        variant: { type: 'string' }
+      }),
+      issue: object({
+        nodeId: { type: 'string' },
+        nodeName: { type: 'string' },
+        icon: { type: 'string' },
+        message: { type: 'string' }
+      }),
+      icon: object({
+        name: iconName,
+        tags: strings,
+        category: { type: 'string' },
+        aliases: { type: 'array', items: iconName },
+        deprecated: { type: 'boolean' },
+        replacement: iconName,
+        since: { type: 'string' },
+        page: { type: 'string' },
+        codepoint: { type: 'string', pattern: '^[0-9a-f]{4,6}$' },
+        hash,
+        variants: { type: 'array', minItems: 1, items: { $ref: '#/$defs/variant' } }
+      }, ['replacement', 'since', 'codepoint']),
+      variant: object({
+        variant: { type: 'object', additionalProperties: variantValue },
+        svg: { type: 'string', pattern: '^<svg[\\s>]' },
+        hash,
+        strokeWidth: { type: 'number', minimum: 0 }
+      }, ['strokeWidth'])
+    }
+  };
+}
+
+/**
+ * Validates a value against the subset of JSON Schema the export schema uses
+ * (type, const, enum, pattern, bounds, properties, items and local $refs).
+ * Returns one message per problem, prefixed with the JSON Pointer of the value.
+ */
+function validateJsonSchema(value: any, schema: JsonSchema, root: JsonSchema = schema, pointer = ''): string[] {
+  const at = pointer || '/';
+  if (schema.$ref) {
+    const target = schema.$ref.replace(/^#\//, '').split('/').reduce((node: any, key: string) => node && node[key], root);
+    return validateJsonSchema(value, target, root, pointer);
+  }
+
+  const type = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = types.some(expected =>
+      expected === type || (expected === 'integer' && type === 'number' && Number.isInteger(value)));
+    if (!matches) {
+      return [`${at}: expected ${types.join(' or ')}, got ${type}`];
+    }
+  }
+  if ('const' in schema && value !== schema.const) {
+    return [`${at}: expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at}: expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`];
+  }
+
+  const problems: string[] = [];
+  if (type === 'string') {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      problems.push(`${at}: does not match ${schema.pattern}`);
+    }
+    if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+      problems.push(`${at}: is not a date-time`);
+    }
+  }
+  if (type === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) problems.push(`${at}: must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) problems.push(`${at}: must be at most ${schema.maximum}`);
+  }
+  if (type === 'array') {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      problems.push(`${at}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item: any, index: number) =>
+        problems.push(...validateJsonSchema(item, schema.items!, root, `${pointer}/${index}`)));
+    }
+  }
+  if (type === 'object') {
+    for (const name of schema.required || []) {
+      if (!(name in value)) problems.push(`${at}: missing "${name}"`);
+    }
+    for (const [name, item] of Object.entries(value)) {
+      const property = schema.properties && schema.properties[name];
+      const childPointer = `${pointer}/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+      if (property) {
+        problems.push(...validateJsonSchema(item, property, root, childPointer));
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${at}: unexpected "${name}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        problems.push(...validateJsonSchema(item, schema.additionalProperties, root, childPointer));
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Throws when a value doesn't match the schema, listing the first few problems
+ */
+function assertMatchesSchema(value: any, schema: JsonSchema, label: string): void {
+  const problems = validateJsonSchema(value, schema);
+  if (problems.length > 0) {
+    const more = problems.length > MAX_SCHEMA_PROBLEMS_SHOWN ? ` (and ${problems.length - MAX_SCHEMA_PROBLEMS_SHOWN} more)` : '';
+    throw new Error(`${label} does not match schema ${SCHEMA_VERSION}: ${problems.slice(0, MAX_SCHEMA_PROBLEMS_SHOWN).join('; ')}${more}`);
+  }
+}
+
+/**
+ * Compares "major.minor.patch" versions; a missing version counts as 1.0.0
+ */
+function compareSchemaVersions(a: string, b: string): number {
+  const parts = (version: string) => (version || '1.0.0').split('.').map(part => parseInt(part, 10) || 0);
+  const [aParts, bParts] = [parts(a), parts(b)];
+  for (let i = 0; i < 3; i++) {
+    if ((aParts[i] || 0) !== (bParts[i] || 0)) return (aParts[i] || 0) - (bParts[i] || 0);
+  }
+  return 0;
+}
+
+/**
+ * Brings a previous export of any schema version up to the current shape,
+ * filling in what older versions didn't record and dropping anything the
+ * current schema doesn't know. Older exporters could write icons without a
+ * name or without variants; those are dropped and reported in `warnings`.
+ * Hashes are recomputed by rehashPreviousExport.
+ */
+function migrateIconsExport(parsed: any, axes: VariantAxis[], warnings: string[]): IconsExport {
+  const version = typeof parsed.schemaVersion === 'string' ? parsed.schemaVersion : '1.0.0';
+  // 3.0.0 added the axes; older exports always used the default weight × duotone axes
+  const exportAxes = compareSchemaVersions(version, '3.0.0') < 0 ? DEFAULT_VARIANT_AXES : axes;
+
+  const icons: IconData[] = [];
+  parsed.icons.forEach((icon: any, index: number) => {
+    const name = icon && typeof icon.name === 'string' ? icon.name : '';
+    const variants = icon && Array.isArray(icon.variants)
+      ? icon.variants.filter((iconVariant: any) => iconVariant && typeof iconVariant.svg === 'string')
+      : [];
+    if (!name) {
+      warnings.push(`Icon ${index + 1} has no name and was dropped`);
+      return;
+    }
+    if (variants.length === 0) {
+      warnings.push(`${name} has no variants and was dropped`);
+      return;
+    }
+
+    const migrated: IconData = {
+      name,
+      tags: Array.isArray(icon.tags) ? icon.tags : [],
+      // 4.2.0 added the metadata fields
+      category: typeof icon.category === 'string' ? icon.category : '',
+      aliases: Array.isArray(icon.aliases) ? icon.aliases : [],
+      deprecated: icon.deprecated === true,
+      page: typeof icon.page === 'string' ? icon.page : '',  // Added in 3.1.0
+      hash: icon.hash,  // Added in 4.0.0
+      variants: variants.map((iconVariant: any) => {
+        const migratedVariant: IconVariant = {
+          variant: migrateVariantValues(iconVariant, exportAxes),
+          svg: iconVariant.svg,
+          hash: iconVariant.hash
+        };
+        // Added in 4.3.0
+        if (iconVariant.strokeWidth !== undefined) {
+          migratedVariant.strokeWidth = iconVariant.strokeWidth;
+        }
+        return migratedVariant;
+      })
+    };
+    if (icon.replacement !== undefined) {
+      migrated.replacement = icon.replacement;
+    }
+    if (icon.since !== undefined) {
+      migrated.since = icon.since;
+    }
+    if (icon.codepoint !== undefined) {
+      migrated.codepoint = icon.codepoint;
+    }
+    icons.push(migrated);
+  });
+
+  return {
+    $schema: SCHEMA_FILENAME,
+    schemaVersion: SCHEMA_VERSION,
+    // 1.x exports didn't record when they were made
+    exportedAt: typeof parsed.exportedAt === 'string' && !isNaN(Date.parse(parsed.exportedAt)) ? parsed.exportedAt : UNKNOWN_EXPORT_DATE,
+    hashAlgorithm: parsed.hashAlgorithm,
+    hashLength: parsed.hashLength,
+    // Added in 4.4.0; without it an import can't tell which settings the hashes were made with
+    processing: parsed.processing && typeof parsed.processing === 'object' ? parsed.processing : null,
+    totalIcons: icons.length,
+    variantAxes: Array.isArray(parsed.variantAxes)
+      ? parsed.variantAxes
+      : exportAxes.map(axis => ({ key: axis.key, values: axis.values.map(axisValue => axisValue.value) })),
+    // 3.2.0 added the validation report, 3.3.0 the error and warning lists
+    validation: parsed.validation || { errors: 0, warnings: 0, findings: [] },
+    errors: Array.isArray(parsed.errors) ? parsed.errors : [],
+    warnings: Array.isArray(parsed.warnings) ? parsed.warnings : [],
+    icons
+  };
+}
+
+/**
+ * Reads a previous variant's axis values. Besides the current `variant` object,
+ * values stored directly on the variant (e.g. `weight`, `duotone`) are picked up,
+ * and "True"/"False" strings on boolean axes become booleans.
+ */
+function migrateVariantValues(iconVariant: any, axes: VariantAxis[]): VariantValues {
+  if (!iconVariant) return {};
+  const source = iconVariant.variant && typeof iconVariant.variant === 'object' ? iconVariant.variant : iconVariant;
+  const keys = iconVariant.variant && typeof iconVariant.variant === 'object'
+    ? Object.keys(source)
+    : axes.map(axis => axis.key).filter(key => key in source);
+
+  const values: VariantValues = {};
+  for (const key of keys) {
+    const value = source[key];
+    const axis = axes.find(candidate => candidate.key === key);
+    const isBoolean = axis && axis.values.some(axisValue => typeof axisValue.value === 'boolean');
+    values[key] = isBoolean && typeof value === 'string' && /^(true|false)$/i.test(value) ? value.toLowerCase() === 'true' : value;
+  }
+  return values;
+}
+
+// ============================================================================
+// CHANGELOG
+// ============================================================================
+
+/**
+ * Parses a previously downloaded icons-export.json so it can be diffed,
+ * migrating it to the current schema and validating the result. Icons the
+ * migration had to drop are reported in `warnings`.
+ */
+function parsePreviousExport(rawExport: string, axes: VariantAxis[], hashLength: number, warnings: string[] = []): IconsExport {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(rawExport);
+  } catch (error) {
+    throw new Error('Previous export is not valid JSON.');
+  }
+
+  if (!parsed || !Array.isArray(parsed.icons)) {
+    throw new Error('Previous export does not look like an icons-export.json file (missing "icons").');
+  }
+
+  const migrated = rehashPreviousExport(migrateIconsExport(parsed, axes, warnings), axes, hashLength);
+  assertMatchesSchema(migrated, createIconsExportSchema(), 'Previous export');
+  return migrated;
+}
+
+/**
+ * Recomputes the hashes of a previous export made with another hash algorithm
+ * or length (e.g. the 32-bit hashes before schema 4.0.0) from its SVGs, so the
+ * diff only reports real changes
+ */
+function rehashPreviousExport(previous: IconsExport, axes: VariantAxis[], hashLength: number): IconsExport {
+  if (previous.hashAlgorithm === HASH_ALGORITHM && previous.hashLength === hashLength) {
+    return previous;
+  }
+
+  const icons = previous.icons.map(icon => {
+    const variants = (icon.variants || []).map(iconVariant =>
+      iconVariant && typeof iconVariant.svg === 'string'
+        ? { ...iconVariant, hash: generateHash(iconVariant.svg, hashLength) }
+        : iconVariant);
+    const hashable = variants.filter(iconVariant => iconVariant && iconVariant.variant);
+    return { ...icon, hash: generateIconHash(icon.tags || [], hashable, axes, hashLength), variants };
+  });
+  return { ...previous, hashAlgorithm: HASH_ALGORITHM, hashLength, icons };
+}
+
+/**
+ * Maps variant keys (e.g. "bold-duotone") to hashes for a single icon
+ */
+function getVariantHashes(icon: IconData, axes: VariantAxis[]): Map<string, string> {
+  const hashes = new Map<string, string>();
+  for (const iconVariant of icon.variants || []) {
+    if (iconVariant && iconVariant.variant) {
+      hashes.set(getVariantKey(iconVariant.variant, axes), iconVariant.hash);
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Pairs removed and added icons that share variant hashes, treating them as
+ * renames. Icons with an identical set of hashes are matched first, then any
+ * remaining pairs with the largest hash overlap.
+ */
+function detectRenames(removed: IconData[], added: IconData[], axes: VariantAxis[]): IconRename[] {
+  const renames: IconRename[] = [];
+  const unmatchedAdded = new Set(added);
+
+  const hashSet = (icon: IconData) => new Set(Array.from(getVariantHashes(icon, axes).values()));
+  const candidates: { from: IconData; to: IconData; overlap: number; exact: boolean }[] = [];
+
+  for (const oldIcon of removed) {
+    const oldHashes = hashSet(oldIcon);
+    for (const newIcon of added) {
+      const newHashes = hashSet(newIcon);
+      const overlap = Array.from(newHashes).filter(hash => oldHashes.has(hash)).length;
+      if (overlap > 0) {
+        const exact = overlap === oldHashes.size && overlap === newHashes.size;
+        candidates.push({ from: oldIcon, to: newIcon, overlap, exact });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => Number(b.exact) - Number(a.exact) || b.overlap - a.overlap);
+
+  const matchedRemoved = new Set<IconData>();
+  for (const candidate of candidates) {
+    if (matchedRemoved.has(candidate.from) || !unmatchedAdded.has(candidate.to)) continue;
+    matchedRemoved.add(candidate.from);
+    unmatchedAdded.delete(candidate.to);
+    renames.push({ from: candidate.from.name, to: candidate.to.name });
+  }
+
+  return renames.sort((a, b) => a.to.localeCompare(b.to));
+}
+
+/**
+ * Compares the current export with a previous one and reports added, removed,
+ * renamed and changed icons
+ */
+function diffIconsExport(previous: IconsExport, current: IconsExport, axes: VariantAxis[]): ExportChangelog {
+  const previousByName = new Map(previous.icons.map(icon => [icon.name, icon] as [string, IconData]));
+  const currentByName = new Map(current.icons.map(icon => [icon.name, icon] as [string, IconData]));
+
+  const removedIcons = previous.icons.filter(icon => !currentByName.has(icon.name));
+  const addedIcons = current.icons.filter(icon => !previousByName.has(icon.name));
+  const renamed = detectRenames(removedIcons, addedIcons, axes);
+
+  const renamedFrom = new Set(renamed.map(rename => rename.from));
+  const renamedTo = new Set(renamed.map(rename => rename.to));
+
+  const variants: IconVariantChanges[] = [];
+  const tags: IconTagChanges[] = [];
+  const deprecated: ExportChangelog['deprecated'] = [];
+
+  for (const icon of current.icons) {
+    const previousIcon = previousByName.get(icon.name);
+    if (!previousIcon) continue;
+
+    const oldHashes = getVariantHashes(previousIcon, axes);
+    const newHashes = getVariantHashes(icon, axes);
+    const variantChanges: IconVariantChanges = { name: icon.name, changed: [], added: [], removed: [] };
+
+    newHashes.forEach((hash, key) => {
+      if (!oldHashes.has(key)) {
+        variantChanges.added.push(key);
+      } else if (oldHashes.get(key) !== hash) {
+        variantChanges.changed.push(key);
+      }
+    });
+    oldHashes.forEach((_, key) => {
+      if (!newHashes.has(key)) {
+        variantChanges.removed.push(key);
+      }
+    });
+
+    if (variantChanges.changed.length + variantChanges.added.length + variantChanges.removed.length > 0) {
+      variants.push(variantChanges);
+    }
+
+    const oldTags = new Set(previousIcon.tags || []);
+    const newTags = new Set(icon.tags || []);
+    const tagChanges: IconTagChanges = {
+      name: icon.name,
+      added: Array.from(newTags).filter(tag => !oldTags.has(tag)).sort(),
+      removed: Array.from(oldTags).filter(tag => !newTags.has(tag)).sort()
+    };
+    if (tagChanges.added.length + tagChanges.removed.length > 0) {
+      tags.push(tagChanges);
+    }
+
+    if (icon.deprecated && !previousIcon.deprecated) {
+      deprecated.push({ name: icon.name, replacement: icon.replacement || null });
+    }
+  }
+
+  return {
+    previousExportedAt: previous.exportedAt && previous.exportedAt !== UNKNOWN_EXPORT_DATE ? previous.exportedAt : null,
+    exportedAt: current.exportedAt,
+    added: addedIcons.map(icon => icon.name).filter(name => !renamedTo.has(name)).sort(),
+    removed: removedIcons.map(icon => icon.name).filter(name => !renamedFrom.has(name)).sort(),
+    renamed,
+    variants,
+    tags,
+    deprecated
+  };
+}
+
+/**
+ * Returns true when the changelog has nothing to report
+ */
+function isChangelogEmpty(changelog: ExportChangelog): boolean {
+  return changelog.added.length === 0 &&
+    changelog.removed.length === 0 &&
+    changelog.renamed.length === 0 &&
+    changelog.variants.length === 0 &&
+    changelog.tags.length === 0 &&
+    changelog.deprecated.length === 0;
+}
+
+/**
+ * Renders a changelog as Markdown suitable for release notes
+ */
+function formatChangelogMarkdown(changelog: ExportChangelog): string {
+  const lines: string[] = ['# Icon Changelog', ''];
+  const since = changelog.previousExportedAt ? ` (previous export: ${changelog.previousExportedAt})` : '';
+  lines.push(`Exported ${changelog.exportedAt}${since}`, '');
+
+  if (isChangelogEmpty(changelog)) {
+    lines.push('No changes.');
+    return lines.join('\n') + '\n';
+  }
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push(`## ${title} (${items.length})`, '');
+    items.forEach(item => lines.push(`- ${item}`));
+    lines.push('');
+  };
+
+  section('Added', changelog.added.map(name => `\`${name}\``));
+  section('Removed', changelog.removed.map(name => `\`${name}\``));
+  section('Renamed', changelog.renamed.map(rename => `\`${rename.from}\` → \`${rename.to}\``));
+  section('Changed', changelog.variants.map(change => {
+    const parts: string[] = [];
+    if (change.changed.length > 0) parts.push(`geometry changed in ${change.changed.join(', ')}`);
+    if (change.added.length > 0) parts.push(`added ${change.added.join(', ')}`);
+    if (change.removed.length > 0) parts.push(`removed ${change.removed.join(', ')}`);
+    return `\`${change.name}\`: ${parts.join('; ')}`;
+  }));
+  section('Tags', changelog.tags.map(change => {
+    const parts = [
+      ...change.added.map(tag => `+${tag}`),
+      ...change.removed.map(tag => `-${tag}`)
+    ];
+    return `\`${change.name}\`: ${parts.join(', ')}`;
+  }));
+  section('Deprecated', changelog.deprecated.map(change =>
+    change.replacement ? `\`${change.name}\` (use \`${change.replacement}\`)` : `\`${change.name}\``));
+
+  return lines.join('\n');
+}
+
+/**
+ * Builds short summary lines for displaying a changelog in the UI
+ */
+function summarizeChangelog(changelog: ExportChangelog): string[] {
+  if (isChangelogEmpty(changelog)) {
+    return ['No changes since the previous export.'];
+  }
+
+  const summary: string[] = [];
+  const add = (count: number, label: string, names: string[]) => {
+    if (count > 0) summary.push(`${label} (${count}): ${names.join(', ')}`);
+  };
+
+  add(changelog.added.length, 'Added', changelog.added);
+  add(changelog.removed.length, 'Removed', changelog.removed);
+  add(changelog.renamed.length, 'Renamed', changelog.renamed.map(rename => `${rename.from} → ${rename.to}`));
+  add(changelog.variants.length, 'Changed', changelog.variants.map(change => change.name));
+  add(changelog.tags.length, 'Tags updated', changelog.tags.map(change => change.name));
+  add(changelog.deprecated.length, 'Deprecated', changelog.deprecated.map(change => change.name));
+  return summary;
+}
+
+// ============================================================================
+// EXPORT CACHE
+// ============================================================================
+
+// Components edited while the plugin is open (see trackComponentChanges)
+const changedComponentIds = new Set<string>();
+
+/**
+ * Hashes everything outside the component that changes its processed SVG,
+ * so cached results from other settings or plugin versions are never reused
+ */
+function getExportCacheKey(options: ExportOptions, axes: VariantAxis[]): string {
+  return generateHash(JSON.stringify({
+    cacheVersion: EXPORT_CACHE_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    ...getProcessingSettings(options),
+    hashLength: options.hashLength,
+    axes
+  }), EXPORT_CACHE_HASH_LENGTH);
+}
+
+/**
+ * Hashes the properties of a component and its descendants that affect the
+ * exported SVG. Figma has no node version, so this stands in for one.
+ */
+function getNodeFingerprint(node: SceneNode): string {
+  const describe = (current: SceneNode): any[] => {
+    const values: any[] = FINGERPRINT_PROPERTIES.map(property => property in current ? (current as any)[property] : null);
+    if ('children' in current) {
+      values.push(current.children.map(describe));
+    }
+    return values;
+  };
+  // figma.mixed is a symbol, which JSON.stringify would silently drop
+  const json = JSON.stringify(describe(node), (_key, value) => typeof value === 'symbol' ? 'mixed' : value);
+  return generateHash(json, EXPORT_CACHE_HASH_LENGTH);
+}
+
+/**
+ * Returns the cached result for a component when the settings, the node's
+ * fingerprint and its derived variant all still match
+ */
+function readExportCache(component: ComponentNode, cacheKey: string, fingerprint: string, variantKey: string): ExportCacheEntry | null {
+  if (changedComponentIds.has(component.id)) return null;
+
+  const saved = component.getPluginData(EXPORT_CACHE_PLUGIN_DATA_KEY);
+  if (!saved) return null;
+  try {
+    const entry = JSON.parse(saved) as ExportCacheEntry;
+    return entry.cacheKey === cacheKey && entry.fingerprint === fingerprint && entry.variantKey === variantKey
+      ? entry
+      : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Stores a freshly processed result on the component. Files opened without
+ * edit access can't be written to; the export then simply isn't cached.
+ */
+function writeExportCache(component: ComponentNode, entry: ExportCacheEntry): void {
+  changedComponentIds.delete(component.id);
+  try {
+    component.setPluginData(EXPORT_CACHE_PLUGIN_DATA_KEY, JSON.stringify(entry));
+  } catch (error) {
+    console.warn(`Could not cache export of ${component.name}:`, error);
+  }
+}
+
+/**
+ * Removes every cached result in the document and returns how many were removed.
+ * Throws when the file can't be written to (e.g. opened without edit access).
+ */
+function clearExportCache(): number {
+  let cleared = 0;
+  for (const component of figma.root.findAllWithCriteria({ types: ['COMPONENT'] })) {
+    if (component.getPluginData(EXPORT_CACHE_PLUGIN_DATA_KEY)) {
+      component.setPluginData(EXPORT_CACHE_PLUGIN_DATA_KEY, '');
+      cleared++;
+    }
+  }
+  changedComponentIds.clear();
+  return cleared;
+}
+
+/**
+ * Marks the components containing edited nodes as changed, so they are
+ * re-exported even when the fingerprint misses the edit. Changes to plugin
+ * data (including the cache itself) are ignored.
+ */
+function trackComponentChanges(event: DocumentChangeEvent): void {
+  for (const change of event.documentChanges) {
+    if (change.type !== 'CREATE' && change.type !== 'DELETE' && change.type !== 'PROPERTY_CHANGE') continue;
+    if (change.type === 'PROPERTY_CHANGE' && change.properties.every(property => property === 'pluginData')) continue;
+    if (change.node.removed) continue;
+
+    let node: BaseNode | null = change.node as SceneNode;
+    while (node && node.type !== 'PAGE' && node.type !== 'DOCUMENT') {
+      if (node.type === 'COMPONENT') {
+        changedComponentIds.add(node.id);
+      }
+      node = node.parent;
+    }
+  }
+}
+
+// ============================================================================
+// PROGRESS & CANCELLATION
+// ============================================================================
+
+// Set while exportIcons runs; cancel-export only applies to a running export
+let exportRunning = false;
+// Set by cancel-export and honoured at the next check between units of work
+let cancelRequested = false;
+
+/**
+ * Stops the export once the UI has asked to cancel. Called between icons and
+ * phases, outside per-variant error handling, so it ends the export instead of
+ * being recorded as a failure.
+ */
+function throwIfCancelled(): void {
+  if (cancelRequested) {
+    throw new Error('Export cancelled');
+  }
+}
+
+/**
+ * Starts a new phase of work and posts it right away so the bar resets
+ */
+function startProgressPhase(context: ExportContext, phase: ExportPhase, total: number, current: string = ''): void {
+  context.progress = { phase, done: 0, total, current, startedAt: Date.now(), postedAt: 0 };
+  postProgress(context.progress);
+}
+
+/**
+ * Counts finished work in the current phase. Posts are throttled, except the
+ * one that completes the phase.
+ */
+function advanceProgress(context: ExportContext, amount: number, current?: string): void {
+  const progress = context.progress;
+  const before = progress.done;
+  progress.done = Math.min(progress.total, progress.done + Math.max(0, amount));
+  if (current !== undefined) {
+    progress.current = current;
+  }
+  if ((progress.done === progress.total && progress.done !== before) || Date.now() - progress.postedAt >= PROGRESS_INTERVAL_MS) {
+    postProgress(progress);
+  }
+}
+
+/**
+ * Posts a progress message. The ETA extrapolates the phase's rate so far, so
+ * it is null until something has finished.
+ */
+function postProgress(progress: ExportProgress): void {
+  progress.postedAt = Date.now();
+  const { phase, done, total, current } = progress;
+  const percent = total > 0 ? Math.round((done / total) * 100) : 100;
+  const etaSeconds = done > 0 && done < total
+    ? Math.ceil(((progress.postedAt - progress.startedAt) / done) * (total - done) / 1000)
+    : null;
+  figma.ui.postMessage({
+    type: 'progress',
+    message: `${PHASE_LABELS[phase]}${current ? `: ${current}` : ''} (${done}/${total})`,
+    data: { phase, done, total, current, percent, etaSeconds }
+  });
+}
+
+// ============================================================================
+// COMPONENT PROCESSING FUNCTIONS
+// ============================================================================
+
+/**
+ * Resolves the export scope into the root nodes to scan for components.
+ * Selected variants are widened to their component set so icons stay complete.
+ */
+async function getScopeRoots(options: ExportOptions): Promise<{ roots: BaseNode[]; label: string }> {
+  if (options.scope === 'selection') {
+    const roots = new Map<string, BaseNode>();
+    for (const node of figma.currentPage.selection) {
+      const root = node.type === 'COMPONENT' && node.parent && node.parent.type === 'COMPONENT_SET'
+        ? node.parent
+        : node;
+      roots.set(root.id, root);
+    }
+    if (roots.size === 0) {
+      throw new Error('Nothing is selected. Select the icon components or component sets to export.');
+    }
+    return { roots: Array.from(roots.values()), label: 'the current selection' };
+  }
+
+  let pages: PageNode[];
+  let label: string;
+  if (options.scope === 'document') {
+    pages = figma.root.children.slice();
+    label = 'any page';
+  } else if (options.scope === 'pages') {
+    pages = figma.root.children.filter(page => options.pageIds.includes(page.id));
+    if (pages.length === 0) {
+      throw new Error('No pages chosen. Pick at least one page to export.');
+    }
+    label = `the chosen pages (${pages.map(page => page.name).join(', ')})`;
+  } else {
+    pages = [figma.currentPage];
+    label = `the current page "${figma.currentPage.name}"`;
+  }
+
+  // Pages other than the current one may not be loaded yet
+  for (const page of pages) {
+    await page.loadAsync();
+  }
+
+  return { roots: pages, label };
+}
+
+/**
+ * Returns the page that contains a node
+ */
+function getPage(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * Returns the name of the page that contains a node
+ */
+function getPageName(node: BaseNode): string {
+  const page = getPage(node);
+  return page ? page.name : '';
+}
+
+/**
+ * Records an export problem against the Figma node it came from
+ */
+function recordIssue(issues: ExportIssue[], node: BaseNode, icon: string, reason: unknown): void {
+  issues.push({
+    nodeId: node.id,
+    nodeName: node.name,
+    icon,
+    message: reason instanceof Error ? reason.message : String(reason)
+  });
+}
+
+/**
+ * Sorts issues for a stable export (variants are processed concurrently)
+ */
+function sortIssues(issues: ExportIssue[]): ExportIssue[] {
+  return issues.slice().sort((a, b) =>
+    a.icon.localeCompare(b.icon) || a.nodeName.localeCompare(b.nodeName) || a.message.localeCompare(b.message)
+  );
+}
+
+/**
+ * Selects a node and scrolls it into view, switching pages if needed
+ */
+async function selectNodeInCanvas(nodeId: string): Promise<void> {
+  const node = await figma.getNodeByIdAsync(nodeId);
+  if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+    figma.notify('That layer no longer exists.', { error: true });
+    return;
+  }
+
+  const page = getPage(node);
+  if (page && page.id !== figma.currentPage.id) {
+    await figma.setCurrentPageAsync(page);
+  }
+
+  const sceneNode = node as SceneNode;
+  figma.currentPage.selection = [sceneNode];
+  figma.viewport.scrollAndZoomIntoView([sceneNode]);
+}
+
+/**
+ * Gets all components and component sets under the given root nodes
+ */
+function getComponentsFromNodes(roots: readonly BaseNode[]): { components: ComponentNode[], componentSets: any[] } {
+  const components: ComponentNode[] = [];
+  const componentSets: any[] = [];
+  const visited = new Set<string>();
+  
+  function traverse(node: any) {
+    // Selections can overlap (e.g. a frame and a set inside it)
+    if (visited.has(node.id)) return;
+    visited.add(node.id);
+
+    if (node.type === 'COMPONENT') {
+      components.push(node as ComponentNode);
+    } else if (node.type === 'COMPONENT_SET') {
+      // Handle component sets (variants)
+      componentSets.push(node);
+    }
+    
+    if ('children' in node) {
+      for (const child of node.children) {
+        traverse(child);
+      }
+    }
+  }
+  
+  roots.forEach(root => traverse(root));
+  return { components, componentSets };
+}
+
+/**
+ * Groups components by their base name for processing individual components
+ */
+function groupComponentsByBaseName(components: ComponentNode[]): { [baseName: string]: ComponentNode[] } {
+  const groups: { [baseName: string]: ComponentNode[] } = {};
+  
   components.forEach(component => {
     const baseName = extractBaseName(component.name);
     if (!groups[baseName]) {
       groups[baseName] = [];
     }
-    groups[baseName].push(component);
+    groups[baseName].push(component);
+  });
+  
+  return groups;
+}
+
+/**
+ * Lists the icons the export will produce: component sets first, then loose
+ * components grouped by base name, each with its final exported name
+ */
+function collectIconSources(
+  componentSets: any[],
+  components: ComponentNode[],
+  componentSetChildIds: Set<string>
+): IconSource[] {
+  const sources: IconSource[] = [];
+
+  for (const componentSet of componentSets) {
+    const variantComponents = ('children' in componentSet ? componentSet.children : [])
+      .filter((child: SceneNode) => child.type === 'COMPONENT') as ComponentNode[];
+    if (variantComponents.length === 0) continue;
+    sources.push({
+      kind: 'set',
+      baseName: componentSet.name,
+      name: toKebabCase(componentSet.name),
+      node: componentSet,
+      components: variantComponents
+    });
+  }
+
+  const individualComponents = components.filter(comp => !componentSetChildIds.has(comp.id));
+  for (const [baseName, group] of Object.entries(groupComponentsByBaseName(individualComponents))) {
+    sources.push({
+      kind: 'components',
+      baseName,
+      name: toKebabCase(baseName),
+      node: group[0],
+      components: group
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Finds icons whose exported names collide after kebab-casing, plus icons
+ * whose names kebab-case to nothing
+ */
+function findNameConflicts(sources: IconSource[]): NameConflict[] {
+  const byName = new Map<string, IconSource[]>();
+  for (const source of sources) {
+    const group = byName.get(source.name) || [];
+    group.push(source);
+    byName.set(source.name, group);
+  }
+
+  return Array.from(byName.entries())
+    .filter(([name, group]) => group.length > 1 || name === '')
+    .map(([name, group]) => ({
+      name,
+      sources: group.map(source => ({
+        nodeId: source.node.id,
+        nodeName: source.baseName,
+        page: getPageName(source.node),
+        kind: source.kind
+      }))
+    }));
+}
+
+/**
+ * Applies a name conflict strategy, returning the sources to export. Renamed
+ * and skipped icons are recorded as warnings.
+ */
+function resolveNameConflicts(
+  sources: IconSource[],
+  conflicts: NameConflict[],
+  strategy: NameConflictStrategy,
+  context: ExportContext
+): IconSource[] {
+  const conflicting = new Set(conflicts.map(conflict => conflict.name));
+  const takenNames = new Set(sources.filter(source => !conflicting.has(source.name)).map(source => source.name));
+  const skipped = new Set<IconSource>();
+
+  const takeName = (base: string): string => {
+    let name = base;
+    for (let suffix = 2; takenNames.has(name); suffix++) {
+      name = `${base}-${suffix}`;
+    }
+    takenNames.add(name);
+    return name;
+  };
+
+  for (const conflict of conflicts) {
+    const group = sources.filter(source => source.name === conflict.name);
+    const label = conflict.name ? `"${conflict.name}"` : 'an empty name';
+
+    if (strategy === 'suffix') {
+      for (const source of group) {
+        const renamed = takeName(conflict.name || UNNAMED_ICON_NAME);
+        if (renamed !== source.name) {
+          recordIssue(context.warnings, source.node, renamed, `Name collision on ${label}: exported as "${renamed}"`);
+          source.name = renamed;
+        }
+      }
+      continue;
+    }
+
+    // "prefer-set" keeps one icon, favoring a component set; "skip" drops every icon involved
+    const keep = strategy === 'prefer-set' && conflict.name
+      ? group.find(source => source.kind === 'set') || group[0]
+      : null;
+    if (keep) {
+      takenNames.add(keep.name);
+    }
+    for (const source of group) {
+      if (source === keep) continue;
+      skipped.add(source);
+      recordIssue(context.warnings, source.node, conflict.name || source.baseName, `Name collision on ${label}: skipped`);
+    }
+  }
+
+  return sources.filter(source => !skipped.has(source));
+}
+
+/**
+ * Exports one component as SVG and runs it through colorization, normalization,
+ * deduplication and optimization: the part of processing the export cache saves
+ */
+async function renderVariantSvg(component: ComponentNode, variant: VariantValues, context: ExportContext, fingerprint: string): Promise<ExportCacheEntry> {
+  const svgString = await component.exportAsync({ 
+    format: 'SVG_STRING',
+    svgOutlineText: true,
+    // Layer names (as ids) let colorization find the secondary layer
+    svgIdAttribute: context.options.colorization.enabled,
+    svgSimplifyStroke: true
+  });
+
+  if (!svgString || svgString.length === 0) {
+    throw new Error(`No SVG data received for component ${component.name}`);
+  }
+
+  const trimmedSvg = svgString.trim();
+  if (!trimmedSvg.startsWith('<svg')) {
+    throw new Error(`Invalid SVG data received for component ${component.name}`);
+  }
+
+  const svgTree = parseSvg(trimmedSvg);
+  const colorizationNotes = context.options.colorization.enabled
+    ? colorizeSVG(svgTree, variantAllowsColor(variant, context.axes), context.options.colorization)
+    : [];
+  // Normalize first so unreferenced ids (e.g. layer names) don't block dedup
+  normalizeSVG(svgTree);
+  deduplicateSVG(svgTree);
+  const stats = createOptimizationStats();
+  optimizeSVG(svgTree, context.options.optimization, stats);
+  // After optimization, so the recorded width is the one in the final SVG
+  const strokes = context.options.strokes.preserve
+    ? normalizeStrokes(svgTree, context.options.strokes)
+    : { strokeWidth: null, notes: [] };
+  const strokeNotes = context.options.strokes.preserve ? strokes.notes.concat(findAlignedStrokes(component)) : [];
+  const normalizedSvg = serializeSvg(svgTree);
+  stats.bytesBefore = encodeUTF8(trimmedSvg).length;
+  stats.bytesAfter = encodeUTF8(normalizedSvg).length;
+
+  return {
+    cacheKey: context.cacheKey,
+    fingerprint,
+    variantKey: getVariantKey(variant, context.axes),
+    svg: normalizedSvg,
+    hash: generateHash(normalizedSvg, context.options.hashLength),
+    stats,
+    colorizationNotes,
+    strokeWidth: strokes.strokeWidth,
+    strokeNotes,
+    incomplete: !trimmedSvg.endsWith('</svg>')
+  };
+}
+
+/**
+ * Returns the processed SVG of a variant, from the export cache when the
+ * component hasn't changed since it was last exported with these settings
+ */
+async function loadVariantSvg(component: ComponentNode, variant: VariantValues, context: ExportContext): Promise<ExportCacheEntry> {
+  const variantKey = getVariantKey(variant, context.axes);
+  const fingerprint = context.options.cache ? getNodeFingerprint(component) : '';
+  const cached = context.options.cache ? readExportCache(component, context.cacheKey, fingerprint, variantKey) : null;
+  if (cached) {
+    context.cacheStats.cached++;
+    return cached;
+  }
+
+  const entry = await renderVariantSvg(component, variant, context, fingerprint);
+  if (context.options.cache) {
+    writeExportCache(component, entry);
+  }
+  context.cacheStats.regenerated++;
+  return entry;
+}
+
+/**
+ * Reads an icon's tags from the description of its first component, falling
+ * back to the component set's description and then to the words of its name.
+ * Also returns the node the description was read from, if any.
+ */
+function readIconTags(baseName: string, firstComponent: ComponentNode): { tags: string[]; node: BaseNode | null } {
+  // Get description using official Figma Plugin API
+  // Note: There's a known bug in Figma where description field may appear missing
+  // until nodes are re-published. We'll try both plain text and markdown versions.
+  let description = '';
+  let node: BaseNode | null = null;
+  
+  // Primary method: Use official description property (plain text)
+  if ((firstComponent as any).description) {
+    description = (firstComponent as any).description;
+    node = firstComponent;
+  }
+  // Fallback: Try descriptionMarkdown (rich text with markdown)
+  else if ((firstComponent as any).descriptionMarkdown) {
+    // Convert markdown to plain text for tags (remove markdown syntax)
+    const markdownDesc = (firstComponent as any).descriptionMarkdown;
+    description = markdownDesc
+      .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold **text**
+      .replace(/\*(.*?)\*/g, '$1')     // Remove italic *text*
+      .replace(/`(.*?)`/g, '$1')       // Remove code `text`
+      .replace(/#{1,6}\s*/g, '')       // Remove headers # ## ###
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links [text](url)
+      .replace(/\n/g, ', ')            // Replace newlines with commas
+      .trim();
+    node = firstComponent;
+  }
+  // Fallback: Check parent component set description (for component sets)
+  else if (firstComponent.parent && firstComponent.parent.type === 'COMPONENT_SET') {
+    const componentSet = firstComponent.parent;
+    if ((componentSet as any).description) {
+      description = (componentSet as any).description;
+      node = componentSet;
+    } else if ((componentSet as any).descriptionMarkdown) {
+      const markdownDesc = (componentSet as any).descriptionMarkdown;
+      description = markdownDesc
+        .replace(/\*\*(.*?)\*\*/g, '$1')
+        .replace(/\*(.*?)\*/g, '$1')
+        .replace(/`(.*?)`/g, '$1')
+        .replace(/#{1,6}\s*/g, '')
+        .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+        .replace(/\n/g, ', ')
+        .trim();
+      node = componentSet;
+    }
+  }
+  
+  
+  // Process tags using the new function
+  let tagsString = description;
+  
+  // If no description found, try to extract meaningful tags from the component name
+  if (!tagsString && baseName) {
+    // Convert component name to tags by splitting on common separators
+    const nameTags = baseName
+      .split(/[-_\s]+/)
+      .map(tag => tag.toLowerCase())
+      .filter(tag => tag.length > 0)
+      .join(', ');
+    
+    if (nameTags) {
+      tagsString = nameTags;
+    }
+  }
+  
+  return { tags: processTags(tagsString), node };
+}
+
+/**
+ * Processes a group of components into icon data
+ */
+async function processIconGroup(
+  baseName: string,
+  components: ComponentNode[],
+  context: ExportContext,
+  iconName: string = toKebabCase(baseName)
+): Promise<IconData | null> {
+  const { axes } = context;
+  // Get tags from the first component (they should be the same for all variants)
+  const firstComponent = components[0];
+  const { tags } = readIconTags(baseName, firstComponent);
+
+  // Resolve every component's variant first so collisions are caught before exporting
+  const derived = components.map(component => ({
+    component,
+    variant: deriveVariant(component, axes, message => recordIssue(context.warnings, component, iconName, message))
+  }));
+
+  const byKey = new Map<string, typeof derived>();
+  for (const entry of derived) {
+    const key = getVariantKey(entry.variant, axes);
+    byKey.set(key, (byKey.get(key) || []).concat(entry));
+  }
+
+  const collisions: VariantCollision[] = [];
+  byKey.forEach((entries, key) => {
+    if (entries.length > 1) {
+      collisions.push({
+        variant: key,
+        nodeIds: entries.map(entry => entry.component.id),
+        nodeNames: entries.map(entry => entry.component.name)
+      });
+      entries.slice(1).forEach(entry => recordIssue(
+        context.warnings,
+        entry.component,
+        iconName,
+        `Resolves to the same variant (${key}) as ${entries[0].component.name}; skipped`
+      ));
+    }
   });
+
+  // Only the first component for each variant is exported
+  const uniqueVariants = Array.from(byKey.values()).map(entries => entries[0]);
+  // Skipped collisions count as done so the bar tracks every component
+  advanceProgress(context, components.length - uniqueVariants.length, iconName);
   
-  return groups;
+  const variantResults = await mapWithConcurrency(
+    uniqueVariants,
+    EXPORT_CONCURRENCY,
+    async ({ component, variant }, index) => {
+      if (cancelRequested) return null;
+      try {
+        const variantKey = getVariantKey(variant, axes);
+        const entry = await loadVariantSvg(component, variant, context);
+
+        if (entry.incomplete) {
+          recordIssue(context.warnings, component, iconName, 'SVG may be incomplete - missing closing tag');
+        }
+        entry.colorizationNotes.forEach(message => context.colorizationNotes.push({ icon: iconName, variant: variantKey, message }));
+        entry.strokeNotes.forEach(message => recordIssue(context.warnings, component, iconName, `Strokes (${variantKey}): ${message}`));
+        mergeOptimizationStats(context.optimizationStats, entry.stats);
+
+        const normalizedSvg = entry.svg;
+        const svgTree = parseSvg(normalizedSvg);
+        validateSVG(svgTree, normalizedSvg, variant, axes)
+          // Kept strokes are the point of preserve mode, not a problem
+          .filter(violation => !(context.options.strokes.preserve && violation.rule === 'stroke'))
+          .forEach(violation => {
+            context.lintFindings.push({
+              ...violation,
+              icon: iconName,
+              variant: variantKey
+            });
+          });
+
+        // Convert for mobile targets here so conversion problems link back to the component
+        if (context.options.android || context.options.ios) {
+          const assets: MobileVariantAssets = {};
+          if (context.options.android) {
+            const { xml, problems } = convertToVectorDrawable(svgTree);
+            assets.vectorDrawable = xml;
+            Array.from(new Set(problems)).forEach(problem =>
+              recordIssue(context.warnings, component, iconName, `Android (${variantKey}): ${problem}`));
+          }
+          if (context.options.ios) {
+            const { svg, template, problems } = convertToXcassetSvg(parseSvg(normalizedSvg));
+            assets.xcassetSvg = svg;
+            assets.template = template;
+            Array.from(new Set(problems)).forEach(problem =>
+              recordIssue(context.warnings, component, iconName, `iOS (${variantKey}): ${problem}`));
+          }
+          context.mobileAssets.set(`${iconName}/${variantKey}`, assets);
+        }
+
+        if (context.options.raster.enabled) {
+          context.rasterSources.push({ component, icon: iconName, variant, variantKey, svg: normalizedSvg });
+        }
+        
+        const hash = entry.hash;
+        if (!hash) {
+          recordIssue(context.warnings, component, iconName, `Failed to generate hash for variant (${describeVariant(variant)})`);
+        }
+        
+        if ((index + 1) % YIELD_FREQUENCY === 0) {
+          await yieldToFigma();
+        }
+        
+        const iconVariant: IconVariant = {
+          variant: variant,
+          svg: normalizedSvg,
+          hash
+        };
+        if (entry.strokeWidth !== null) {
+          iconVariant.strokeWidth = entry.strokeWidth;
+        }
+        return iconVariant;
+      } catch (error) {
+        console.error(`Failed to export variant ${component.name}:`, error);
+        recordIssue(context.errors, component, iconName, error);
+        return null;
+      } finally {
+        advanceProgress(context, 1, iconName);
+      }
+    }
+  );
+
+  const variants: IconVariant[] = variantResults.filter(
+    (result): result is IconVariant => Boolean(result)
+  );
+  
+  const owner = getMetadataNode(firstComponent);
+  const exportedKeys = new Set(variants.map(iconVariant => getVariantKey(iconVariant.variant, axes)));
+  context.completeness.push({
+    icon: iconName,
+    nodeId: owner.id,
+    missing: getExpectedVariants(axes)
+      .map(variant => getVariantKey(variant, axes))
+      .filter(key => !exportedKeys.has(key)),
+    collisions: collisions.sort((a, b) => a.variant.localeCompare(b.variant))
+  });
+
+  // An icon without any variants would look valid in the JSON; leave it out instead
+  if (variants.length === 0) {
+    recordIssue(context.errors, owner, iconName, 'No variants could be exported; icon omitted');
+    return null;
+  }
+  context.iconNodes.set(iconName, owner);
+
+  // Sort variants by the configured axes, in axis order (e.g. weight, then duotone)
+  variants.sort((a, b) => compareVariants(a.variant, b.variant, axes));
+  
+  return {
+    name: iconName, // Convert to kebab-case
+    tags,
+    ...resolveIconMetadata(iconName, owner, context),
+    page: getPageName(firstComponent),
+    hash: generateIconHash(tags, variants, axes, context.options.hashLength),
+    variants
+  };
+}
+
+/**
+ * Saves the icons export data to a JSON file, or to a ZIP bundle that also
+ * contains one SVG file per variant plus any enabled code and platform targets
+ */
+async function saveIconsExport(iconsData: IconData[], context: ExportContext): Promise<void> {
+  const { options, axes, previousExport } = context;
+  // Sort icons alphabetically by name
+  const sortedIcons = iconsData.sort((a, b) => a.name.localeCompare(b.name));
+  
+  const exportContent: IconsExport = {
+    $schema: SCHEMA_FILENAME,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    hashAlgorithm: HASH_ALGORITHM,
+    hashLength: options.hashLength,
+    processing: getProcessingSettings(options),
+    totalIcons: sortedIcons.length,
+    variantAxes: axes.map(axis => ({ key: axis.key, values: axis.values.map(axisValue => axisValue.value) })),
+    validation: summarizeValidation(context.lintFindings),
+    errors: sortIssues(context.errors),
+    warnings: sortIssues(context.warnings),
+    icons: sortedIcons
+  };
+
+  const content = JSON.stringify(exportContent, null, 2);
+
+  // Check what will actually be written (e.g. without undefined fields) before downloading
+  const schema = createIconsExportSchema();
+  assertMatchesSchema(JSON.parse(content), schema, 'Export');
+
+  // Diff against the previous export (if one was loaded) before downloading
+  const attachments: ArchiveEntry[] = [
+    { path: SCHEMA_FILENAME, content: JSON.stringify(schema, null, 2) }
+  ];
+  if (previousExport) {
+    const changelog = diffIconsExport(previousExport, exportContent, axes);
+    attachments.push(
+      { path: CHANGELOG_MARKDOWN_FILENAME, content: formatChangelogMarkdown(changelog) },
+      { path: CHANGELOG_JSON_FILENAME, content: JSON.stringify(changelog, null, 2) }
+    );
+
+    figma.ui.postMessage({
+      type: 'changelog',
+      data: {
+        changelog,
+        summary: summarizeChangelog(changelog)
+      }
+    });
+  }
+
+  if (options.format === 'zip') {
+    const entries: ArchiveEntry[] = [
+      { path: EXPORT_FILENAME, content },
+      ...attachments,
+      ...buildSvgArchiveEntries(sortedIcons, axes),
+      ...(options.sprite ? buildSpriteArchiveEntries(sortedIcons, axes) : []),
+      ...(options.react ? buildReactArchiveEntries(sortedIcons, axes) : []),
+      ...(options.android ? buildAndroidArchiveEntries(sortedIcons, axes, context.mobileAssets) : []),
+      ...(options.ios ? buildXcassetsArchiveEntries(sortedIcons, axes, context.mobileAssets) : []),
+      ...context.rasters,
+      ...context.fontFiles
+    ];
+
+    figma.ui.postMessage({
+      type: 'save-icons-archive',
+      data: {
+        bytes: createZipArchive(entries, new Date(exportContent.exportedAt)),
+        filename: ARCHIVE_FILENAME
+      }
+    });
+    return;
+  }
+
+  figma.ui.postMessage({
+    type: 'save-icons-export',
+    data: {
+      content,
+      filename: EXPORT_FILENAME,
+      attachments: attachments.map(attachment => ({
+        content: attachment.content,
+        filename: attachment.path
+      }))
+    }
+  });
+}
+
+// ============================================================================
+// PREVIEW GALLERY
+// ============================================================================
+
+/**
+ * Collects what the gallery shows for a dry run: every icon's normalized
+ * variants plus the validation findings and export issues recorded for it
+ */
+function buildPreview(icons: IconData[], context: ExportContext): PreviewData {
+  const { axes } = context;
+  const problems = (icon: string, severity: LintSeverity, issues: ExportIssue[]) => [
+    ...context.lintFindings
+      .filter(finding => finding.icon === icon && finding.severity === severity)
+      .map(finding => `${finding.variant}: ${finding.message} (${finding.rule})`),
+    ...issues.filter(issue => issue.icon === icon).map(issue => issue.message)
+  ];
+
+  return {
+    variantKeys: getExpectedVariants(axes).map(variant => getVariantKey(variant, axes)),
+    defaultVariantKey: getDefaultVariantKey(axes),
+    icons: icons
+      .slice()
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(icon => {
+        const node = context.iconNodes.get(icon.name);
+        return {
+          name: icon.name,
+          nodeId: node ? node.id : '',
+          tags: icon.tags,
+          variants: icon.variants.map(iconVariant => ({
+            key: getVariantKey(iconVariant.variant, axes),
+            svg: iconVariant.svg
+          })),
+          errors: problems(icon.name, 'error', context.errors),
+          warnings: problems(icon.name, 'warning', context.warnings)
+        };
+      })
+  };
+}
+
+// ============================================================================
+// ICON EDITING
+// ============================================================================
+
+/**
+ * Lists the icons in the export scope, for the editors' tables
+ */
+async function collectScopeIconSources(options: ExportOptions): Promise<IconSource[]> {
+  const { roots } = await getScopeRoots(options);
+  const { components, componentSets } = getComponentsFromNodes(roots);
+  return collectIconSources(componentSets, components, collectComponentSetChildIds(componentSets));
+}
+
+/**
+ * Runs document edits as a single undo step. The undo step of anything done
+ * before is closed first, so undo reverts exactly these edits.
+ */
+async function runAsUndoStep<T>(edits: () => Promise<T>): Promise<T> {
+  figma.commitUndo();
+  try {
+    return await edits();
+  } finally {
+    figma.commitUndo();
+  }
+}
+
+/**
+ * Applies changes to the components and component sets they name as one undo
+ * step, returning how many were edited. Changes for other or missing nodes are
+ * ignored, as are those `edit` returns false for.
+ */
+async function applyNodeEdits<T extends { nodeId: string }>(
+  changes: T[],
+  edit: (node: ComponentNode | ComponentSetNode, change: T) => boolean
+): Promise<number> {
+  return runAsUndoStep(async () => {
+    let updated = 0;
+    for (const change of changes) {
+      const node = await figma.getNodeByIdAsync(change.nodeId);
+      if (node && (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') && edit(node, change)) {
+        updated++;
+      }
+    }
+    return updated;
+  });
+}
+
+// ============================================================================
+// TAG EDITOR
+// ============================================================================
+
+/**
+ * Lists every icon in the scope with its current tags and the node whose
+ * description they are written back to: the node they were read from, or the
+ * component set / first component when the tags come from the name
+ */
+async function collectTagTable(options: ExportOptions): Promise<TagTableRow[]> {
+  return (await collectScopeIconSources(options))
+    .map(source => {
+      const firstComponent = source.components[0];
+      const { tags, node } = readIconTags(source.baseName, firstComponent);
+      const target = node || (source.kind === 'set' ? source.node : firstComponent);
+      return {
+        name: source.name,
+        nodeId: target.id,
+        nodeName: target.name,
+        page: getPageName(firstComponent),
+        tags,
+        fromName: !node
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name) || a.nodeId.localeCompare(b.nodeId));
+}
+
+/**
+ * Writes tags back to component and component set descriptions as one undo
+ * step, returning how many descriptions were updated
+ */
+async function applyTagChanges(changes: TagChange[]): Promise<number> {
+  return applyNodeEdits(changes, (node, change) => {
+    if (!Array.isArray(change.tags)) return false;
+    node.description = processTags(change.tags.join(',')).join(', ');
+    return true;
+  });
+}
+
+// ============================================================================
+// ICON METADATA
+// ============================================================================
+
+/**
+ * Returns the node an icon's metadata lives on: its component set, or the
+ * first of its loose components
+ */
+function getMetadataNode(firstComponent: ComponentNode): ComponentNode | ComponentSetNode {
+  return firstComponent.parent && firstComponent.parent.type === 'COMPONENT_SET' ? firstComponent.parent : firstComponent;
+}
+
+/**
+ * Names the category of an icon after the nearest section or frame around it
+ */
+function getIconCategory(node: BaseNode): string {
+  let current = node.parent;
+  while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+    if (current.type === 'SECTION' || current.type === 'FRAME') {
+      return current.name.trim();
+    }
+    current = current.parent;
+  }
+  return '';
+}
+
+/**
+ * Cleans metadata from plugin data or the UI: aliases and the replacement are
+ * kebab-cased like icon names, and empty fields are dropped
+ */
+function normalizeIconMetadata(raw: any): IconMetadata {
+  const metadata: IconMetadata = {};
+  if (!raw || typeof raw !== 'object') return metadata;
+
+  if (typeof raw.category === 'string' && raw.category.trim()) {
+    metadata.category = raw.category.trim();
+  }
+  if (Array.isArray(raw.aliases)) {
+    const aliases = raw.aliases
+      .filter((alias: any) => typeof alias === 'string')
+      .map(toKebabCase)
+      .filter((alias: string) => alias.length > 0);
+    if (aliases.length > 0) {
+      metadata.aliases = Array.from(new Set<string>(aliases)).sort();
+    }
+  }
+  if (raw.deprecated === true) {
+    metadata.deprecated = true;
+  }
+  if (typeof raw.replacement === 'string' && toKebabCase(raw.replacement)) {
+    metadata.replacement = toKebabCase(raw.replacement);
+  }
+  if (typeof raw.since === 'string' && raw.since.trim()) {
+    metadata.since = raw.since.trim();
+  }
+  return metadata;
+}
+
+/**
+ * Reads the metadata stored on an icon's node; unreadable data counts as none
+ */
+function readIconMetadata(node: BaseNode): IconMetadata {
+  const stored = node.getPluginData(ICON_METADATA_PLUGIN_DATA_KEY);
+  if (!stored) return {};
+  try {
+    return normalizeIconMetadata(JSON.parse(stored));
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Resolves the exported metadata of an icon. "since" comes from the plugin
+ * data, else from the previous export (under the icon's name or one of its
+ * aliases, so renamed icons keep it), else from this export's library version.
+ */
+function resolveIconMetadata(
+  iconName: string,
+  node: BaseNode,
+  context: ExportContext
+): Pick<IconData, 'category' | 'aliases' | 'deprecated' | 'replacement' | 'since'> {
+  const metadata = readIconMetadata(node);
+  const aliases = (metadata.aliases || []).filter(alias => alias !== iconName);
+  const previousIcons = context.previousExport ? context.previousExport.icons : [];
+  const previous = [iconName, ...aliases]
+    .map(name => previousIcons.find(icon => icon.name === name && Boolean(icon.since)))
+    .find(Boolean);
+
+  const resolved: Pick<IconData, 'category' | 'aliases' | 'deprecated' | 'replacement' | 'since'> = {
+    category: metadata.category !== undefined ? metadata.category : getIconCategory(node),
+    aliases,
+    deprecated: Boolean(metadata.deprecated)
+  };
+  // A replacement only means something on a deprecated icon
+  if (metadata.deprecated && metadata.replacement) {
+    resolved.replacement = metadata.replacement;
+  }
+  const since = metadata.since || (previous && previous.since) || context.options.version;
+  if (since) {
+    resolved.since = since;
+  }
+  return resolved;
+}
+
+/**
+ * Warns about metadata that points nowhere: replacements that aren't in the
+ * export or are deprecated themselves, and aliases taken by another icon's
+ * name or alias
+ */
+function checkIconMetadata(icons: IconData[], context: ExportContext): void {
+  const byName = new Map(icons.map(icon => [icon.name, icon] as [string, IconData]));
+  const aliasOwners = new Map<string, string>();
+
+  for (const icon of icons) {
+    const node = context.iconNodes.get(icon.name);
+    if (!node) continue;
+
+    if (icon.replacement) {
+      const replacement = byName.get(icon.replacement);
+      if (!replacement) {
+        recordIssue(context.warnings, node, icon.name, `Replacement "${icon.replacement}" is not in this export`);
+      } else if (replacement.deprecated) {
+        recordIssue(context.warnings, node, icon.name, `Replacement "${icon.replacement}" is deprecated too`);
+      }
+    }
+
+    for (const alias of icon.aliases) {
+      if (byName.has(alias)) {
+        recordIssue(context.warnings, node, icon.name, `Alias "${alias}" is the name of another icon`);
+      } else if (aliasOwners.has(alias)) {
+        recordIssue(context.warnings, node, icon.name, `Alias "${alias}" is also an alias of ${aliasOwners.get(alias)}`);
+      } else {
+        aliasOwners.set(alias, icon.name);
+      }
+    }
+  }
+}
+
+/**
+ * Stores an icon's metadata; empty metadata removes the stored data
+ */
+function writeIconMetadata(node: BaseNode, metadata: IconMetadata): void {
+  node.setPluginData(ICON_METADATA_PLUGIN_DATA_KEY, Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : '');
+}
+
+/**
+ * Lists every icon in the scope with its stored metadata and derived category
+ */
+async function collectMetadataTable(options: ExportOptions): Promise<MetadataTableRow[]> {
+  return (await collectScopeIconSources(options))
+    .map(source => {
+      const node = getMetadataNode(source.components[0]);
+      return {
+        name: source.name,
+        nodeId: node.id,
+        nodeName: node.name,
+        page: getPageName(node),
+        category: getIconCategory(node),
+        metadata: readIconMetadata(node)
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name) || a.nodeId.localeCompare(b.nodeId));
+}
+
+/**
+ * Writes metadata to the icons' plugin data as one undo step, returning how
+ * many icons were updated. Empty metadata removes the stored data.
+ */
+async function applyMetadataChanges(changes: MetadataChange[]): Promise<number> {
+  return applyNodeEdits(changes, (node, change) => {
+    writeIconMetadata(node, normalizeIconMetadata(change.metadata));
+    return true;
+  });
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Names a variant component the way Figma does, e.g. "Weight=Bold, Duotone=True",
+ * using the first Figma property name of each axis
+ */
+function getVariantComponentName(variant: VariantValues, axes: VariantAxis[]): string {
+  const axisKeys = axes.map(axis => axis.key);
+  const extraKeys = Object.keys(variant).filter(key => !axisKeys.includes(key)).sort();
+
+  return axisKeys
+    .concat(extraKeys)
+    .filter(key => key in variant)
+    .map(key => {
+      const axis = axes.find(candidate => candidate.key === key);
+      const value = variant[key];
+      return `${axis ? axis.properties[0] : key}=${typeof value === 'boolean' ? (value ? 'True' : 'False') : value}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Builds a component from an SVG string
+ */
+function createComponentFromSvg(svg: string, name: string): ComponentNode {
+  const component = figma.createComponentFromNode(figma.createNodeFromSvg(svg));
+  component.name = name;
+  return component;
+}
+
+/**
+ * Replaces a component's layers with those of an SVG. The component itself
+ * stays, so instances of it keep pointing at it.
+ */
+function replaceComponentContent(component: ComponentNode, svg: string): void {
+  const frame = figma.createNodeFromSvg(svg);
+  component.children.slice().forEach(child => child.remove());
+  frame.children.slice().forEach(child => component.appendChild(child));
+  component.resizeWithoutConstraints(frame.width, frame.height);
+  frame.remove();
+}
+
+/**
+ * Remembers which SVG a component was built from
+ */
+function writeImportRecord(component: ComponentNode, svg: string): void {
+  const record: ImportRecord = {
+    svgHash: generateHash(svg, EXPORT_CACHE_HASH_LENGTH),
+    fingerprint: getNodeFingerprint(component)
+  };
+  component.setPluginData(IMPORT_RECORD_PLUGIN_DATA_KEY, JSON.stringify(record));
+}
+
+/**
+ * Tells whether a component still matches an imported variant. Components
+ * untouched since an import are compared by the SVG they were built from
+ * (Figma doesn't export an imported SVG byte for byte); others are exported
+ * and compared by hash, which only works when the file was made with the
+ * current processing settings. Returns null when they can't be compared.
+ */
+async function matchesImportedVariant(
+  component: ComponentNode,
+  iconVariant: IconVariant,
+  context: ExportContext,
+  hashesComparable: boolean
+): Promise<boolean | null> {
+  const saved = component.getPluginData(IMPORT_RECORD_PLUGIN_DATA_KEY);
+  if (saved) {
+    try {
+      const record = JSON.parse(saved) as ImportRecord;
+      if (record.fingerprint === getNodeFingerprint(component)) {
+        return record.svgHash === generateHash(iconVariant.svg, EXPORT_CACHE_HASH_LENGTH);
+      }
+    } catch (error) {
+      // Unreadable records fall back to exporting the component
+    }
+  }
+  if (!hashesComparable) return null;
+  const entry = await loadVariantSvg(component, iconVariant.variant, context);
+  return entry.hash === iconVariant.hash;
 }
 
 /**
- * Checks for duplicate icon names across component sets and individual components
- * Returns an array of duplicate names found
+ * Builds the metadata to store for an imported icon. The category is only
+ * stored when it differs from the one the icon's position implies.
  */
-function checkForDuplicateNames(
-  componentSets: any[],
-  components: ComponentNode[],
-  precomputedChildIds?: Set<string>
-): string[] {
-  const nameCounts = new Map<string, number>();
-  const bumpCount = (rawName?: string) => {
-    if (!rawName) return;
-    const baseName = extractBaseName(rawName);
-    nameCounts.set(baseName, (nameCounts.get(baseName) || 0) + 1);
-  };
-
-  componentSets.forEach(componentSet => bumpCount((componentSet as any).name));
-
-  const componentSetChildIds = precomputedChildIds !== undefined ? precomputedChildIds : collectComponentSetChildIds(componentSets);
+function getImportedMetadata(icon: IconData, node: BaseNode): IconMetadata {
+  return normalizeIconMetadata({
+    category: icon.category !== getIconCategory(node) ? icon.category : undefined,
+    aliases: icon.aliases,
+    deprecated: icon.deprecated,
+    replacement: icon.replacement,
+    since: icon.since
+  });
+}
 
-  components
-    .filter(comp => !componentSetChildIds.has((comp as any).id))
-    .forEach(component => bumpCount(component.name));
+/**
+ * Creates a component set for an imported icon, with one variant component
+ * per variant laid out in a row, its tags in the description and its metadata
+ * in plugin data
+ */
+function createIconComponentSet(icon: IconData, axes: VariantAxis[], page: PageNode): ComponentSetNode {
+  const components: ComponentNode[] = [];
+  try {
+    let x = 0;
+    for (const iconVariant of icon.variants) {
+      const component = createComponentFromSvg(iconVariant.svg, getVariantComponentName(iconVariant.variant, axes));
+      component.x = x;
+      component.y = 0;
+      x += component.width + IMPORT_VARIANT_SPACING;
+      components.push(component);
+    }
+  } catch (error) {
+    // Don't leave half an icon behind
+    components.forEach(component => component.remove());
+    throw error;
+  }
 
-  return Array.from(nameCounts.entries())
-    .filter(([, count]) => count > 1)
-    .map(([name]) => name);
+  const componentSet = figma.combineAsVariants(components, page);
+  componentSet.name = icon.name;
+  componentSet.description = icon.tags.join(', ');
+  writeIconMetadata(componentSet, getImportedMetadata(icon, componentSet));
+  // Record once the set is laid out, since the fingerprint covers positions
+  components.forEach((component, index) => writeImportRecord(component, icon.variants[index].svg));
+  return componentSet;
 }
 
 /**
- * Processes a group of components into icon data
+ * Brings an existing icon up to date with an imported one: rebuilds variants
+ * whose hashes differ, adds missing variants to component sets, and rewrites
+ * tags and metadata that differ. Returns the rebuilt or added variant keys and
+ * whether anything changed. Variants missing from the import are left alone.
+ * When a variant can't be compared (see matchesImportedVariant) nothing is
+ * changed and those variant keys are returned as `unknown`.
  */
-async function processIconGroup(baseName: string, components: ComponentNode[]): Promise<IconData> {
-  // Get tags from the first component (they should be the same for all variants)
-  const firstComponent = components[0];
-  
-  // Get description using official Figma Plugin API
-  // Note: There's a known bug in Figma where description field may appear missing
-  // until nodes are re-published. We'll try both plain text and markdown versions.
-  let description = '';
-  
-  // Primary method: Use official description property (plain text)
-  if ((firstComponent as any).description) {
-    description = (firstComponent as any).description;
-  }
-  // Fallback: Try descriptionMarkdown (rich text with markdown)
-  else if ((firstComponent as any).descriptionMarkdown) {
-    // Convert markdown to plain text for tags (remove markdown syntax)
-    const markdownDesc = (firstComponent as any).descriptionMarkdown;
-    description = markdownDesc
-      .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold **text**
-      .replace(/\*(.*?)\*/g, '$1')     // Remove italic *text*
-      .replace(/`(.*?)`/g, '$1')       // Remove code `text`
-      .replace(/#{1,6}\s*/g, '')       // Remove headers # ## ###
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links [text](url)
-      .replace(/\n/g, ', ')            // Replace newlines with commas
-      .trim();
+async function updateIconComponents(
+  source: IconSource,
+  icon: IconData,
+  context: ExportContext,
+  hashesComparable: boolean
+): Promise<{ variants: string[]; changed: boolean; unknown: string[] }> {
+  const { axes } = context;
+  const byKey = new Map<string, ComponentNode>();
+  for (const component of source.components) {
+    const key = getVariantKey(deriveVariant(component, axes, () => {}), axes);
+    if (!byKey.has(key)) byKey.set(key, component);
   }
-  // Fallback: Check parent component set description (for component sets)
-  else if (firstComponent.parent && firstComponent.parent.type === 'COMPONENT_SET') {
-    const componentSet = firstComponent.parent;
-    if ((componentSet as any).description) {
-      description = (componentSet as any).description;
-    } else if ((componentSet as any).descriptionMarkdown) {
-      const markdownDesc = (componentSet as any).descriptionMarkdown;
-      description = markdownDesc
-        .replace(/\*\*(.*?)\*\*/g, '$1')
-        .replace(/\*(.*?)\*/g, '$1')
-        .replace(/`(.*?)`/g, '$1')
-        .replace(/#{1,6}\s*/g, '')
-        .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
-        .replace(/\n/g, ', ')
-        .trim();
+
+  // Compare everything first so an icon that can't be updated is left untouched
+  const rebuild: { component: ComponentNode; iconVariant: IconVariant }[] = [];
+  const add: IconVariant[] = [];
+  const unknown: string[] = [];
+  for (const iconVariant of icon.variants) {
+    const key = getVariantKey(iconVariant.variant, axes);
+    const component = byKey.get(key);
+    if (!component) {
+      add.push(iconVariant);
+      continue;
     }
-  }
-  
-  
-  // Process tags using the new function
-  let tagsString = description;
-  
-  // If no description found, try to extract meaningful tags from the component name
-  if (!tagsString && baseName) {
-    // Convert component name to tags by splitting on common separators
-    const nameTags = baseName
-      .split(/[-_\s]+/)
-      .map(tag => tag.toLowerCase())
-      .filter(tag => tag.length > 0)
-      .join(', ');
-    
-    if (nameTags) {
-      tagsString = nameTags;
+    const matches = await matchesImportedVariant(component, iconVariant, context, hashesComparable);
+    if (matches === null) {
+      unknown.push(key);
+    } else if (!matches) {
+      rebuild.push({ component, iconVariant });
     }
   }
-  
-  const tags = processTags(tagsString);
-  
-  const variantResults = await mapWithConcurrency(
-    components,
-    EXPORT_CONCURRENCY,
-    async (component, index) => {
-      try {
-        const variant = deriveVariant(component, baseName);
-        
-        if (!ALLOWED_WEIGHTS.includes(variant.weight)) {
-          console.warn(`Weight "${variant.weight}" is not in allowed weights: ${ALLOWED_WEIGHTS.join(', ')}`);
-        }
-        
-        const svgString = await component.exportAsync({ 
-          format: 'SVG_STRING',
-          svgOutlineText: true,
-          svgIdAttribute: false,
-          svgSimplifyStroke: true
-        });
-        
-        if (!svgString || svgString.length === 0) {
-          throw new Error(`No SVG data received for component ${component.name}`);
-        }
-        
-        const trimmedSvg = svgString.trim();
-        if (!trimmedSvg.startsWith('<svg')) {
-          throw new Error(`Invalid SVG data received for component ${component.name}`);
-        }
-        
-        if (!trimmedSvg.endsWith('</svg>')) {
-          console.warn(`SVG for component ${component.name} may be incomplete - missing closing tag`);
-        }
-        
-        const deduplicatedSvg = deduplicateSVG(trimmedSvg);
-        const normalizedSvg = normalizeSVG(deduplicatedSvg);
-        const validation = validateSVG(normalizedSvg, variant);
-        if (!validation.isValid) {
-          console.warn(`SVG validation failed for variant (weight: "${variant.weight}", duotone: ${variant.duotone}):`, validation.errors);
-        }
-        
-        const hash = generateHash(normalizedSvg);
-        if (!hash) {
-          console.error(`Failed to generate hash for variant (weight: "${variant.weight}", duotone: ${variant.duotone})`);
-        }
-        
-        if ((index + 1) % YIELD_FREQUENCY === 0) {
-          await yieldToFigma();
-        }
-        
-        return {
-          variant: variant,
-          svg: normalizedSvg,
-          hash
-        } as IconVariant;
-      } catch (error) {
-        console.error(`Failed to export variant ${component.name}:`, error);
-        return null;
-      }
+  if (unknown.length > 0) {
+    return { variants: [], changed: false, unknown };
+  }
+  if (add.length > 0 && source.kind !== 'set') {
+    throw new Error(`Can't add variants (${add.map(iconVariant => getVariantKey(iconVariant.variant, axes)).join(', ')}) to loose components; combine them into a component set first`);
+  }
+
+  for (const { component, iconVariant } of rebuild) {
+    replaceComponentContent(component, iconVariant.svg);
+    writeImportRecord(component, iconVariant.svg);
+  }
+  if (add.length > 0) {
+    const componentSet = source.node as ComponentSetNode;
+    for (const iconVariant of add) {
+      const component = createComponentFromSvg(iconVariant.svg, getVariantComponentName(iconVariant.variant, axes));
+      component.x = componentSet.children.reduce((right, child) => Math.max(right, child.x + child.width + IMPORT_VARIANT_SPACING), 0);
+      component.y = 0;
+      componentSet.appendChild(component);
+      componentSet.resizeWithoutConstraints(Math.max(componentSet.width, component.x + component.width), Math.max(componentSet.height, component.height));
+      writeImportRecord(component, iconVariant.svg);
     }
-  );
+  }
 
-  const variants: IconVariant[] = variantResults.filter(
-    (result): result is IconVariant => Boolean(result)
-  );
-  
-  // Sort variants: first by weight (Regular, Bold, Fill), then by duotone (false before true)
-  const weightOrder: { [key: string]: number } = { "Regular": 0, "Bold": 1, "Fill": 2 };
-  variants.sort((a, b) => {
-    const weightDiff = (weightOrder[a.variant.weight] ?? 999) - (weightOrder[b.variant.weight] ?? 999);
-    if (weightDiff !== 0) return weightDiff;
-    // If weights are the same, sort by duotone (false before true)
-    return (a.variant.duotone ? 1 : 0) - (b.variant.duotone ? 1 : 0);
-  });
-  
-  return {
-    name: toKebabCase(baseName), // Convert to kebab-case
-    tags,
-    variants
-  };
+  const firstComponent = source.components[0];
+  const { tags, node } = readIconTags(source.baseName, firstComponent);
+  const tagsChanged = tags.join(',') !== processTags(icon.tags.join(',')).join(',');
+  if (tagsChanged) {
+    // Same target as the tag editor: where the tags were read from, else the set or first component
+    const target = (node || (source.kind === 'set' ? source.node : firstComponent)) as ComponentNode | ComponentSetNode;
+    target.description = icon.tags.join(', ');
+  }
+
+  const metadataNode = getMetadataNode(firstComponent);
+  const metadata = getImportedMetadata(icon, metadataNode);
+  const metadataChanged = JSON.stringify(metadata) !== JSON.stringify(readIconMetadata(metadataNode));
+  if (metadataChanged) {
+    writeIconMetadata(metadataNode, metadata);
+  }
+
+  const variants = rebuild.map(({ iconVariant }) => iconVariant).concat(add)
+    .sort((a, b) => compareVariants(a.variant, b.variant, axes))
+    .map(iconVariant => getVariantKey(iconVariant.variant, axes));
+  return { variants, changed: variants.length > 0 || tagsChanged || metadataChanged, unknown: [] };
 }
 
 /**
- * Saves the icons export data to a JSON file
+ * Rebuilds the icons of an icons-export.json on the current page as one undo
+ * step. Icons are matched to existing ones by exported name: new icons become
+ * component sets below the page's content, existing ones are updated where
+ * their hashes, tags or metadata differ, and the rest are skipped. Edited icons
+ * are only compared by hash when the file was made with the current processing
+ * settings; otherwise they are reported as unknown and left alone.
  */
-async function saveIconsExport(iconsData: IconData[]): Promise<void> {
-  // Sort icons alphabetically by name
-  const sortedIcons = iconsData.sort((a, b) => a.name.localeCompare(b.name));
-  
-  const exportContent: IconsExport = {
-    schemaVersion: SCHEMA_VERSION,
-    exportedAt: new Date().toISOString(),
-    totalIcons: sortedIcons.length,
-    icons: sortedIcons
-  };
+async function importIconsExport(rawExport: string, options: ExportOptions): Promise<ImportReport> {
+  const axes = loadVariantAxes();
+  // Hashes are recomputed at the chosen length so they compare with the components' own
+  const dropped: string[] = [];
+  const imported = parsePreviousExport(rawExport, axes, options.hashLength, dropped);
+  const context = createExportContext(options, axes, null);
+  const hashesComparable = matchesProcessingSettings(imported.processing, options);
 
-  figma.ui.postMessage({
-    type: 'save-icons-export',
-    data: {
-      content: JSON.stringify(exportContent, null, 2),
-      filename: 'icons-export.json'
+  const page = figma.currentPage;
+  const { components, componentSets } = getComponentsFromNodes([page]);
+  const existing = new Map<string, IconSource>();
+  for (const source of collectIconSources(componentSets, components, collectComponentSetChildIds(componentSets))) {
+    if (!existing.has(source.name)) existing.set(source.name, source);
+  }
+
+  const report: ImportReport = { created: [], updated: [], skipped: [], failed: [], unknown: [], dropped };
+  let nextY = page.children.reduce((bottom, node) => Math.max(bottom, node.y + node.height + IMPORT_ICON_SPACING), 0);
+
+  await runAsUndoStep(async () => {
+    for (let index = 0; index < imported.icons.length; index++) {
+      const icon = imported.icons[index];
+      figma.ui.postMessage({ type: 'status', message: `Importing ${icon.name} (${index + 1}/${imported.icons.length})...` });
+      try {
+        const source = existing.get(icon.name);
+        if (!source) {
+          const componentSet = createIconComponentSet(icon, axes, page);
+          componentSet.x = 0;
+          componentSet.y = nextY;
+          nextY += componentSet.height + IMPORT_ICON_SPACING;
+          report.created.push(icon.name);
+        } else {
+          const { variants, changed, unknown } = await updateIconComponents(source, icon, context, hashesComparable);
+          if (unknown.length > 0) {
+            report.unknown.push({ name: icon.name, variants: unknown });
+          } else if (changed) {
+            report.updated.push({ name: icon.name, variants });
+          } else {
+            report.skipped.push(icon.name);
+          }
+        }
+      } catch (error) {
+        report.failed.push({ name: icon.name, message: error instanceof Error ? error.message : String(error) });
+      }
+
+      if ((index + 1) % YIELD_FREQUENCY === 0) {
+        await yieldToFigma();
+      }
     }
   });
+
+  return report;
 }
 
 // ============================================================================
@@ -733,53 +6291,195 @@ async function saveIconsExport(iconsData: IconData[]): Promise<void> {
 // ============================================================================
 
 // Main plugin function
-figma.showUI(__html__, { width: 280, height: 144, themeColors: true });
+figma.showUI(__html__, { width: 280, height: 192, themeColors: true });
+postVariantAxes();
+postPages();
+postOptimizationPasses();
+postNameConflictStrategy();
+
+// Keep the page list in sync when the user switches pages
+figma.on('currentpagechange', postPages);
+
+// Invalidate cached exports of components edited while the plugin is open
+figma.on('documentchange', trackComponentChanges);
 
 // Listen for messages from the UI
 figma.ui.onmessage = async (msg: any) => {
   if (msg.type === 'export-icons') {
+    cancelRequested = false;
+    exportRunning = true;
     try {
-      await exportIcons();
+      await exportIcons(resolveExportOptions(msg.options));
       figma.ui.postMessage({ type: 'success', message: 'Icons exported successfully!' });
+    } catch (error: any) {
+      if (cancelRequested) {
+        figma.ui.postMessage({ type: 'cancelled', message: 'Export cancelled' });
+      } else {
+        figma.ui.postMessage({ type: 'error', message: `Error: ${error.message}` });
+      }
+    } finally {
+      exportRunning = false;
+      cancelRequested = false;
+    }
+  } else if (msg.type === 'cancel-export') {
+    // A late click after the export finished must not cancel the next one
+    if (exportRunning) {
+      cancelRequested = true;
+    }
+  } else if (msg.type === 'save-variant-axes') {
+    try {
+      if (msg.config) {
+        const axes = parseVariantAxes(msg.config);
+        figma.root.setPluginData(VARIANT_AXES_PLUGIN_DATA_KEY, JSON.stringify(axes));
+      } else {
+        // An empty config resets to the defaults
+        figma.root.setPluginData(VARIANT_AXES_PLUGIN_DATA_KEY, '');
+      }
+      postVariantAxes();
+    } catch (error: any) {
+      postVariantAxes(error.message);
+    }
+  } else if (msg.type === 'save-name-conflict-strategy') {
+    if (NAME_CONFLICT_STRATEGIES.includes(msg.strategy)) {
+      figma.root.setPluginData(NAME_CONFLICT_STRATEGY_PLUGIN_DATA_KEY, msg.strategy);
+    }
+    postNameConflictStrategy();
+  } else if (msg.type === 'load-tags') {
+    try {
+      figma.ui.postMessage({ type: 'tag-table', data: { rows: await collectTagTable(resolveExportOptions(msg.options)) } });
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'tag-error', message: error.message });
+    }
+  } else if (msg.type === 'apply-tags') {
+    try {
+      const updated = await applyTagChanges(Array.isArray(msg.changes) ? msg.changes : []);
+      figma.notify(`Updated tags of ${updated} icon(s). Undo reverts all of them at once.`);
+      figma.ui.postMessage({ type: 'tag-table', data: { rows: await collectTagTable(resolveExportOptions(msg.options)) } });
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'tag-error', message: error.message });
+    }
+  } else if (msg.type === 'load-metadata') {
+    try {
+      figma.ui.postMessage({ type: 'metadata-table', data: { rows: await collectMetadataTable(resolveExportOptions(msg.options)) } });
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'metadata-error', message: error.message });
+    }
+  } else if (msg.type === 'apply-metadata') {
+    try {
+      const updated = await applyMetadataChanges(Array.isArray(msg.changes) ? msg.changes : []);
+      figma.notify(`Updated metadata of ${updated} icon(s). Undo reverts all of them at once.`);
+      figma.ui.postMessage({ type: 'metadata-table', data: { rows: await collectMetadataTable(resolveExportOptions(msg.options)) } });
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'metadata-error', message: error.message });
+    }
+  } else if (msg.type === 'import-icons') {
+    try {
+      const report = await importIconsExport(String(msg.content || ''), resolveExportOptions(msg.options));
+      figma.notify(`Imported icons: ${report.created.length} created, ${report.updated.length} updated, ${report.skipped.length} unchanged` +
+        (report.failed.length > 0 ? `, ${report.failed.length} failed` : ''), { error: report.failed.length > 0 });
+      figma.ui.postMessage({ type: 'import-report', data: report });
     } catch (error: any) {
       figma.ui.postMessage({ type: 'error', message: `Error: ${error.message}` });
     }
+  } else if (msg.type === 'clear-export-cache') {
+    try {
+      const cleared = clearExportCache();
+      figma.notify(`Cleared ${cleared} cached component export(s)`);
+    } catch (error: any) {
+      figma.notify(`Couldn't clear the export cache: ${error.message}`, { error: true });
+    }
+  } else if (msg.type === 'select-node') {
+    try {
+      await selectNodeInCanvas(msg.nodeId);
+    } catch (error: any) {
+      figma.notify(`Couldn't select the layer: ${error.message}`, { error: true });
+    }
+  } else if (msg.type === 'resize') {
+    figma.ui.resize(msg.width || 280, msg.height || 192);
   }
 };
 
-async function exportIcons(): Promise<void> {
+/**
+ * Creates the empty state of one export run
+ */
+function createExportContext(options: ExportOptions, axes: VariantAxis[], previousExport: IconsExport | null): ExportContext {
+  return {
+    options,
+    axes,
+    previousExport,
+    optimizationStats: createOptimizationStats(),
+    colorizationNotes: [],
+    lintFindings: [],
+    errors: [],
+    warnings: [],
+    completeness: [],
+    mobileAssets: new Map(),
+    rasterSources: [],
+    rasters: [],
+    fontFiles: [],
+    iconNodes: new Map(),
+    cacheKey: getExportCacheKey(options, axes),
+    cacheStats: { cached: 0, regenerated: 0 },
+    progress: { phase: 'processing', done: 0, total: 0, current: '', startedAt: Date.now(), postedAt: 0 }
+  };
+}
+
+async function exportIcons(options: ExportOptions): Promise<void> {
   // Get the currently viewed page
   const currentPage = figma.currentPage;
   if (!currentPage) {
     throw new Error('No current page found. Please select a page with your icon components.');
   }
 
+  const { roots, label: scopeLabel } = await getScopeRoots(options);
+
+  const axes = loadVariantAxes();
+  // Parse the previous export up front so a bad file fails before the long export runs
+  const migrationWarnings: string[] = [];
+  const previousExport = options.previousExport
+    ? parsePreviousExport(options.previousExport, axes, options.hashLength, migrationWarnings)
+    : null;
+  const context = createExportContext(options, axes, previousExport);
+  // Not tied to a node: the icons come from the previous export's file
+  migrationWarnings.forEach(message => context.warnings.push({ nodeId: '', nodeName: 'Previous export', icon: '', message }));
+
   // Send initial status
   figma.ui.postMessage({ 
     type: 'status', 
-    message: 'Scanning page for icon components...' 
+    message: `Scanning ${scopeLabel} for icon components...` 
   });
 
-  // Get all components and component sets from the current page
-  const { components, componentSets } = getComponentsFromPage(currentPage);
+  // Get all components and component sets within the chosen scope
+  const { components, componentSets } = getComponentsFromNodes(roots);
   
   if (components.length === 0 && componentSets.length === 0) {
-    throw new Error(`No components or component sets found on the current page "${currentPage.name}". Please add some icon components to this page.`);
+    throw new Error(`No components or component sets found in ${scopeLabel}. Please add some icon components first.`);
   }
 
   const componentSetChildIds = collectComponentSetChildIds(componentSets);
 
-  // Check for duplicate icon names before processing
-  const duplicateNames = checkForDuplicateNames(componentSets, components, componentSetChildIds);
-  if (duplicateNames.length > 0) {
-    const isPlural = duplicateNames.length > 1;
-    const duplicateLabel = isPlural ? 'Duplicates' : 'Duplicate';
-    const errorMessage = `${duplicateLabel}: ${duplicateNames.join(', ')}`;
-    
-    // Use Figma's notification system to show the error
-    figma.notify(errorMessage, { error: true, timeout: 10000 });
-    return;
+  // Check for icons whose exported names collide across the whole scope before processing
+  const allSources = collectIconSources(componentSets, components, componentSetChildIds);
+  const conflicts = findNameConflicts(allSources);
+  const strategy = loadNameConflictStrategy();
+  figma.ui.postMessage({ type: 'name-conflicts', data: { conflicts, strategy } });
+
+  if (conflicts.length > 0 && strategy === 'ask') {
+    const names = conflicts.map(conflict => conflict.name || '(empty name)');
+    figma.notify(`Name conflicts: ${names.join(', ')}`, { error: true, timeout: 10000 });
+    throw new Error(`${conflicts.length} name conflict(s) found. Choose how to resolve them and export again.`);
   }
+
+  // Icons excluded in the gallery are dropped before any work is done; the
+  // gallery's own dry run keeps them so they can be included again
+  const excluded = new Set(options.preview ? [] : options.excludedIcons);
+  const resolvedSources = resolveNameConflicts(allSources, conflicts, strategy, context);
+  const sources = resolvedSources.filter(source => !excluded.has(source.name));
+  const excludedCount = resolvedSources.length - sources.length;
+  const setSources = sources.filter(source => source.kind === 'set');
+  const groupSources = sources.filter(source => source.kind === 'components');
+  // Progress is weighted by component count, so a 40-variant set moves the bar more than a single icon
+  startProgressPhase(context, 'processing', sources.reduce((sum, source) => sum + source.components.length, 0));
   
   // Calculate total items to process
   const totalItems = componentSets.length + components.length;
@@ -792,50 +6492,28 @@ async function exportIcons(): Promise<void> {
   
 
   const iconsData: IconData[] = [];
-  let processedCount = 0;
 
   // Process component sets first (these are the main icon groups)
   figma.ui.postMessage({ 
     type: 'status', 
-    message: `Processing ${componentSets.length} component sets...` 
+    message: `Processing ${setSources.length} component sets...` 
   });
   
-  for (let index = 0; index < componentSets.length; index++) {
-    const componentSet = componentSets[index];
+  for (let index = 0; index < setSources.length; index++) {
+    const source = setSources[index];
+    throwIfCancelled();
+    const doneBefore = context.progress.done;
     try {
-      const setName = (componentSet as any).name;
-      
-      // Update status for current item being processed
-      figma.ui.postMessage({ 
-        type: 'progress', 
-        message: `Processing component set: ${setName} (${processedCount + 1}/${componentSets.length})` 
-      });
-      
-      // Get all variant components from this set
-      const variantComponents: ComponentNode[] = [];
-      if ('children' in componentSet) {
-        for (const child of componentSet.children) {
-          if (child.type === 'COMPONENT') {
-            variantComponents.push(child as ComponentNode);
-          }
-        }
-      }
-      
-      if (variantComponents.length > 0) {
-        const iconData = await processIconGroup(setName, variantComponents);
+      const iconData = await processIconGroup(source.baseName, source.components, context, source.name);
+      if (iconData) {
         iconsData.push(iconData);
-        processedCount++;
-        
-        // Update progress with percentage
-        const percentage = Math.round((processedCount / componentSets.length) * 50); // 50% for component sets
-        figma.ui.postMessage({ 
-          type: 'progress', 
-          message: `Processed ${processedCount}/${componentSets.length} component sets (${percentage}%)` 
-        });
       }
     } catch (error) {
-      console.error(`Failed to process component set ${(componentSet as any).name}:`, error);
+      console.error(`Failed to process component set ${source.baseName}:`, error);
+      recordIssue(context.errors, source.node, source.name, error);
     }
+    // Catch up on variants a failed set never reached
+    advanceProgress(context, doneBefore + source.components.length - context.progress.done, source.name);
 
     // Yield every few component sets to keep the Figma tab responsive
     if ((index + 1) % 3 === 0) {
@@ -843,51 +6521,28 @@ async function exportIcons(): Promise<void> {
     }
   }
 
-  // Process individual components (not part of component sets)
-  // Filter out components that are already part of component sets
-  const individualComponents = components.filter(comp => !componentSetChildIds.has((comp as any).id));
-  
-  if (individualComponents.length > 0) {
+  // Process individual components (not part of component sets), grouped by base name
+  if (groupSources.length > 0) {
     figma.ui.postMessage({ 
       type: 'status', 
-      message: `Processing ${individualComponents.length} individual components...` 
+      message: `Processing ${groupSources.length} individual component groups...` 
     });
-    
-    const iconGroups = groupComponentsByBaseName(individualComponents);
-
-    const totalGroups = Object.keys(iconGroups).length;
-    let individualProcessedCount = 0;
 
-    const entries = Object.entries(iconGroups);
-
-    for (let i = 0; i < entries.length; i++) {
-      const [baseName, componentGroup] = entries[i];
+    for (let i = 0; i < groupSources.length; i++) {
+      const source = groupSources[i];
+      throwIfCancelled();
+      const doneBefore = context.progress.done;
       try {
-        
-        // Update status for current group being processed
-        figma.ui.postMessage({ 
-          type: 'progress', 
-          message: `Processing group: ${baseName} (${individualProcessedCount + 1}/${totalGroups})` 
-        });
-        
-        const iconData = await processIconGroup(baseName, componentGroup);
-        iconsData.push(iconData);
-        processedCount++;
-        individualProcessedCount++;
-        
-        // Update progress with percentage (50-90% for individual components)
-        const basePercentage = 50; // Start from 50%
-        const individualPercentage = Math.round((individualProcessedCount / totalGroups) * 40); // 40% for individual components
-        const totalPercentage = basePercentage + individualPercentage;
-        
-        figma.ui.postMessage({ 
-          type: 'progress', 
-          message: `Processed ${individualProcessedCount}/${totalGroups} individual groups (${totalPercentage}%)` 
-        });
+        const iconData = await processIconGroup(source.baseName, source.components, context, source.name);
+        if (iconData) {
+          iconsData.push(iconData);
+        }
       } catch (error) {
-        console.error(`Failed to process icon group ${baseName}:`, error);
+        console.error(`Failed to process icon group ${source.baseName}:`, error);
+        recordIssue(context.errors, source.node, source.name, error);
         // Continue with other groups even if one fails
       }
+      advanceProgress(context, doneBefore + source.components.length - context.progress.done, source.name);
 
       // Yield periodically so large numbers of individual components
       // don't lock up the Figma UI.
@@ -897,30 +6552,142 @@ async function exportIcons(): Promise<void> {
     }
   }
 
+  // Variants skipped by a cancel leave gaps that must not be reported
+  throwIfCancelled();
+
+  // Report variant completeness and apply the chosen policy to incomplete icons
+  const incomplete = context.completeness.filter(isIncomplete);
+  figma.ui.postMessage({
+    type: 'completeness-report',
+    data: buildCompletenessMatrix(context.completeness, context.axes)
+  });
+
+  if (incomplete.length > 0 && options.completeness === 'fail' && !options.preview) {
+    throw new Error(`${incomplete.length} icon(s) are missing variants or have colliding variants: ${incomplete.map(entry => entry.icon).join(', ')}`);
+  }
+
+  if (incomplete.length > 0 && options.completeness === 'omit') {
+    // Icons that failed entirely are already reported as errors
+    const omitted = new Set(incomplete.map(entry => entry.icon).filter(name => iconsData.some(icon => icon.name === name)));
+    // What was found while processing omitted icons doesn't apply to the export
+    context.lintFindings = context.lintFindings.filter(finding => !omitted.has(finding.icon));
+    context.errors = context.errors.filter(issue => !omitted.has(issue.icon));
+    context.warnings = context.warnings.filter(issue => !omitted.has(issue.icon));
+    for (const entry of incomplete) {
+      if (!omitted.has(entry.icon)) continue;
+      const problems = [
+        entry.missing.length > 0 ? `missing ${entry.missing.join(', ')}` : '',
+        entry.collisions.length > 0 ? `colliding ${entry.collisions.map(collision => collision.variant).join(', ')}` : ''
+      ].filter(Boolean).join('; ');
+      const node = await figma.getNodeByIdAsync(entry.nodeId);
+      if (node) {
+        recordIssue(context.warnings, node, entry.icon, `Incomplete icon omitted (${problems})`);
+      }
+    }
+    for (let i = iconsData.length - 1; i >= 0; i--) {
+      if (omitted.has(iconsData[i].name)) {
+        iconsData.splice(i, 1);
+      }
+    }
+  }
+
+  checkIconMetadata(iconsData, context);
+
+  // Render PNGs only for icons that made it into the export
+  if (options.raster.enabled && !options.preview) {
+    const exported = new Set(iconsData.map(icon => icon.name));
+    const sources = context.rasterSources
+      .filter(source => exported.has(source.icon))
+      .sort((a, b) => a.icon.localeCompare(b.icon) || compareVariants(a.variant, b.variant, context.axes));
+    figma.ui.postMessage({
+      type: 'status',
+      message: `Rendering ${sources.length * options.raster.sizes.length * options.raster.scales.length} PNGs...`
+    });
+    context.rasters = await renderRasters(sources, context);
+    throwIfCancelled();
+  }
+
+  if (options.font.enabled && !options.preview) {
+    figma.ui.postMessage({ type: 'status', message: 'Building icon font...' });
+    startProgressPhase(context, 'packaging', 2, 'icon font');
+    context.fontFiles = buildIconFont(iconsData, context);
+    advanceProgress(context, 1);
+  }
+
+  // Report validation findings, and stop here in strict mode if any rule errored
+  const validation = summarizeValidation(context.lintFindings);
+  figma.ui.postMessage({
+    type: 'validation-report',
+    data: {
+      report: validation,
+      rules: LINT_RULES.map(rule => ({ id: rule.id, severity: rule.severity, description: rule.description }))
+    }
+  });
+
+  figma.ui.postMessage({
+    type: 'export-issues',
+    data: {
+      errors: sortIssues(context.errors),
+      warnings: sortIssues(context.warnings)
+    }
+  });
+
+  if (options.preview) {
+    figma.ui.postMessage({ type: 'preview', data: buildPreview(iconsData, context) });
+    figma.ui.postMessage({ type: 'success', message: `Previewing ${iconsData.length} icons` });
+    return;
+  }
+
+  if (options.strict && validation.errors > 0) {
+    throw new Error(`Strict mode: ${validation.errors} validation error(s) found, download blocked. See the validation report.`);
+  }
+
+  // Last chance to cancel: once saved, the download has started
+  throwIfCancelled();
+
   // Generate and save the complete icons export
   
   figma.ui.postMessage({ 
     type: 'status', 
-    message: 'Generating JSON export file...' 
+    message: options.format === 'zip' ? 'Generating ZIP bundle...' : 'Generating JSON export file...' 
   });
   
-  figma.ui.postMessage({ 
-    type: 'progress', 
-    message: 'Generating JSON export (90%)' 
-  });
+  const bundle = options.format === 'zip' ? 'ZIP bundle' : 'JSON export';
+  if (context.progress.phase === 'packaging') {
+    context.progress.current = bundle;
+    postProgress(context.progress);
+  } else {
+    startProgressPhase(context, 'packaging', 1, bundle);
+  }
   
-  await saveIconsExport(iconsData);
+  await saveIconsExport(iconsData, context);
+  advanceProgress(context, 1);
 
-  // Send final progress update
-  figma.ui.postMessage({ 
-    type: 'progress', 
-    message: 'Export complete (100%)' 
+  figma.ui.postMessage({
+    type: 'optimization-report',
+    data: { summary: summarizeOptimization(context.optimizationStats) }
   });
 
+  if (options.cache) {
+    figma.ui.postMessage({ type: 'cache-report', data: context.cacheStats });
+  }
+
+  if (context.colorizationNotes.length > 0) {
+    figma.ui.postMessage({
+      type: 'colorization-report',
+      data: {
+        summary: context.colorizationNotes.map(note => `${note.icon} (${note.variant}): ${note.message}`)
+      }
+    });
+  }
+
   // Send final success message
   figma.ui.postMessage({ 
     type: 'success', 
-    message: `Successfully exported ${iconsData.length} icons` 
+    message: (context.errors.length > 0
+      ? `Exported ${iconsData.length} icons with ${context.errors.length} error(s)`
+      : `Successfully exported ${iconsData.length} icons`) +
+      (excludedCount > 0 ? ` (${excludedCount} excluded in the preview)` : '')
   });
 
 }
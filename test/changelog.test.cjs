@@ -0,0 +1,91 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin.cjs');
+
+const plugin = loadPlugin();
+const axes = plugin.loadVariantAxes();
+
+const REGULAR = { weight: 'Regular', duotone: false };
+const BOLD = { weight: 'Bold', duotone: false };
+const FILL = { weight: 'Fill', duotone: false };
+
+function icon(name, tags, variants, extra = {}) {
+  return {
+    name,
+    tags,
+    category: '',
+    aliases: [],
+    deprecated: false,
+    page: 'Icons',
+    hash: '',
+    variants: variants.map(([variant, hash]) => ({ variant, svg: '<svg/>', hash })),
+    ...extra
+  };
+}
+
+function exportOf(exportedAt, icons) {
+  return { exportedAt, icons };
+}
+
+function diff(previousIcons, currentIcons) {
+  const changelog = plugin.diffIconsExport(
+    exportOf('2024-01-01T00:00:00.000Z', previousIcons),
+    exportOf('2024-02-01T00:00:00.000Z', currentIcons),
+    axes
+  );
+  return JSON.parse(JSON.stringify(changelog));
+}
+
+test('reports added, removed and changed icons', () => {
+  const changelog = diff(
+    [
+      icon('arrow', ['arrow'], [[REGULAR, 'a1'], [BOLD, 'a2'], [FILL, 'a3']]),
+      icon('trash', ['delete'], [[REGULAR, 't1']])
+    ],
+    [
+      icon('arrow', ['arrow'], [[REGULAR, 'a1'], [BOLD, 'a9'], [{ weight: 'Regular', duotone: true }, 'a4']]),
+      icon('heart', ['love'], [[REGULAR, 'h1']])
+    ]
+  );
+
+  assert.equal(changelog.previousExportedAt, '2024-01-01T00:00:00.000Z');
+  assert.deepEqual(changelog.added, ['heart']);
+  assert.deepEqual(changelog.removed, ['trash']);
+  assert.deepEqual(changelog.renamed, []);
+  assert.deepEqual(changelog.variants, [{ name: 'arrow', changed: ['bold'], added: ['regular-duotone'], removed: ['fill'] }]);
+});
+
+test('pairs a removed and an added icon sharing variant hashes as a rename', () => {
+  const changelog = diff(
+    [icon('arrow-right', [], [[REGULAR, 'r1'], [BOLD, 'r2']]), icon('close', [], [[REGULAR, 'c1']])],
+    [icon('arrow-forward', [], [[REGULAR, 'r1'], [BOLD, 'r2']]), icon('close', [], [[REGULAR, 'c1']])]
+  );
+
+  assert.deepEqual(changelog.renamed, [{ from: 'arrow-right', to: 'arrow-forward' }]);
+  assert.deepEqual(changelog.added, []);
+  assert.deepEqual(changelog.removed, []);
+});
+
+test('reports tag changes and newly deprecated icons', () => {
+  const changelog = diff(
+    [icon('bin', ['delete', 'trash'], [[REGULAR, 'b1']]), icon('trash', ['delete'], [[REGULAR, 't1']])],
+    [
+      icon('bin', ['delete', 'remove'], [[REGULAR, 'b1']]),
+      icon('trash', ['delete'], [[REGULAR, 't1']], { deprecated: true, replacement: 'bin' })
+    ]
+  );
+
+  assert.deepEqual(changelog.tags, [{ name: 'bin', added: ['remove'], removed: ['trash'] }]);
+  assert.deepEqual(changelog.deprecated, [{ name: 'trash', replacement: 'bin' }]);
+});
+
+test('renders an unchanged export as "No changes."', () => {
+  const icons = [icon('arrow', ['arrow'], [[REGULAR, 'a1']])];
+  const changelog = plugin.diffIconsExport(exportOf('2024-01-01T00:00:00.000Z', icons), exportOf('2024-02-01T00:00:00.000Z', icons), axes);
+
+  assert.equal(plugin.isChangelogEmpty(changelog), true);
+  assert.equal(
+    plugin.formatChangelogMarkdown(changelog),
+    '# Icon Changelog\n\nExported 2024-02-01T00:00:00.000Z (previous export: 2024-01-01T00:00:00.000Z)\n\nNo changes.\n'
+  );
+});
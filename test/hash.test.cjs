@@ -0,0 +1,34 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const { loadPlugin } = require('./load-plugin.cjs');
+
+const plugin = loadPlugin();
+
+function nodeSha256(buffer) {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+test('sha256 matches the published test vectors', () => {
+  assert.equal(plugin.sha256(new Uint8Array(0)), 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  assert.equal(plugin.sha256(Uint8Array.from(Buffer.from('abc'))), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  assert.equal(
+    plugin.sha256(Uint8Array.from(Buffer.from('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))),
+    '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+  );
+});
+
+test('sha256 matches node:crypto around the padding boundaries and for longer input', () => {
+  for (const length of [1, 55, 56, 57, 63, 64, 65, 119, 120, 128, 1000]) {
+    const buffer = Buffer.alloc(length, 0).map((_, index) => (index * 31 + 7) & 0xff);
+    assert.equal(plugin.sha256(Uint8Array.from(buffer)), nodeSha256(buffer), `${length} bytes`);
+  }
+});
+
+test('generateHash hashes the UTF-8 bytes and truncates to the requested length', () => {
+  const input = '<svg><title>flèche → 箭头 🏹</title></svg>';
+  const expected = nodeSha256(Buffer.from(input, 'utf8'));
+
+  assert.equal(plugin.generateHash(input, 64), expected);
+  assert.equal(plugin.generateHash(input, 16), expected.slice(0, 16));
+});
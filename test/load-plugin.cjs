@@ -0,0 +1,40 @@
+// Runs src/code.ts outside Figma with a minimal `figma` global and returns its
+// top-level functions, so the plugin's pure logic can be tested with node:test.
+const fs = require('fs');
+const path = require('path');
+const vm = require('vm');
+const ts = require('typescript');
+
+const SOURCE = path.join(__dirname, '..', 'src', 'code.ts');
+
+function createFigmaStub() {
+  const pluginData = new Map();
+  const page = { id: '0:1', name: 'Page 1', type: 'PAGE', children: [] };
+  return {
+    root: {
+      children: [page],
+      getPluginData: key => pluginData.get(key) || '',
+      setPluginData: (key, value) => pluginData.set(key, value)
+    },
+    currentPage: page,
+    ui: { postMessage() {}, onmessage: null, resize() {} },
+    clientStorage: { getAsync: async () => undefined, setAsync: async () => {} },
+    showUI() {},
+    notify() {},
+    on() {}
+  };
+}
+
+function loadPlugin() {
+  const source = fs.readFileSync(SOURCE, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { target: ts.ScriptTarget.ES2017 }
+  });
+  const names = Array.from(source.matchAll(/^(?:async )?function (\w+)/gm), match => match[1]);
+
+  const context = vm.createContext({ figma: createFigmaStub(), __html__: '', console, setTimeout });
+  vm.runInContext(`${outputText}\n;globalThis.__plugin = { ${names.join(', ')} };`, context);
+  return context.__plugin;
+}
+
+module.exports = { loadPlugin };
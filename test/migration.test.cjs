@@ -0,0 +1,53 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { loadPlugin } = require('./load-plugin.cjs');
+
+const plugin = loadPlugin();
+const axes = plugin.loadVariantAxes();
+
+function readFixture(name) {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+}
+
+// Values created inside the plugin's VM context have that context's prototypes
+function plain(value) {
+  return JSON.parse(JSON.stringify(value));
+}
+
+test('migrates a 2.0.0 export, dropping icons without variants or a name', () => {
+  const warnings = [];
+  const migrated = plain(plugin.parsePreviousExport(readFixture('icons-export-2.0.0.json'), axes, 16, warnings));
+
+  assert.equal(migrated.schemaVersion, '4.4.0');
+  assert.equal(migrated.exportedAt, '2024-01-15T10:30:00.000Z');
+  assert.equal(migrated.processing, null);
+  assert.deepEqual(migrated.icons.map(icon => icon.name), ['arrow-right']);
+  assert.equal(migrated.totalIcons, 1);
+  assert.deepEqual(migrated.icons[0].variants.map(iconVariant => iconVariant.variant), [
+    { weight: 'Regular', duotone: false },
+    { weight: 'Bold', duotone: false }
+  ]);
+  assert.ok(migrated.icons[0].variants.every(iconVariant => /^[0-9a-f]{16}$/.test(iconVariant.hash)));
+  assert.deepEqual(plain(warnings), ['broken-icon has no variants and was dropped', 'Icon 3 has no name and was dropped']);
+});
+
+test('migrates a 1.x export without schemaVersion or exportedAt', () => {
+  const warnings = [];
+  const migrated = plain(plugin.parsePreviousExport(readFixture('icons-export-1.x.json'), axes, 16, warnings));
+
+  assert.equal(migrated.exportedAt, '1970-01-01T00:00:00.000Z');
+  assert.deepEqual(migrated.icons.map(icon => icon.name), ['check']);
+  assert.deepEqual(migrated.icons[0].variants.map(iconVariant => iconVariant.variant.duotone), [false, true]);
+  assert.deepEqual(plain(warnings), ['empty has no variants and was dropped']);
+});
+
+test('a changelog against a 1.x export has no previous export date', () => {
+  const previous = plugin.parsePreviousExport(readFixture('icons-export-1.x.json'), axes, 16);
+  const current = { ...previous, exportedAt: '2025-01-01T00:00:00.000Z', icons: [] };
+  const changelog = plain(plugin.diffIconsExport(previous, current, axes));
+
+  assert.equal(changelog.previousExportedAt, null);
+  assert.deepEqual(changelog.removed, ['check']);
+});
@@ -0,0 +1,81 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin.cjs');
+
+const plugin = loadPlugin();
+
+function optimize(svg, passes) {
+  const root = plugin.parseSvg(svg);
+  plugin.optimizeSVG(root, { passes, precision: 3 }, { bytesBefore: 0, bytesAfter: 0, passes: {} });
+  return plugin.serializeSvg(root);
+}
+
+function svg(content) {
+  return `<svg viewBox="0 0 24 24">${content}</svg>`;
+}
+
+test('removeDefaultAttributes keeps defaults that override an ancestor', () => {
+  const output = optimize(svg(
+    '<g stroke-width="2"><path d="M1 1L2 2" stroke-width="1"/></g><path d="M3 3L4 4" stroke-width="1" opacity="1"/>'
+  ), ['removeDefaultAttributes']);
+
+  assert.equal(output, svg('<g stroke-width="2"><path d="M1 1L2 2" stroke-width="1"/></g><path d="M3 3L4 4"/>'));
+});
+
+test('collapseGroups unwraps plain groups but keeps referenced and clipping ones', () => {
+  const output = optimize(svg(
+    '<defs><clipPath id="c"><rect width="4" height="4"/></clipPath></defs>' +
+    '<g id="shape"><g><path d="M1 1L2 2"/></g></g>' +
+    '<g clip-path="url(#c)"><path d="M3 3L4 4"/></g>' +
+    '<use href="#shape"/>'
+  ), ['collapseGroups']);
+
+  assert.equal(output, svg(
+    '<defs><clipPath id="c"><rect height="4" width="4"/></clipPath></defs>' +
+    '<g id="shape"><path d="M1 1L2 2"/></g>' +
+    '<g clip-path="url(#c)"><path d="M3 3L4 4"/></g>' +
+    '<use href="#shape"/>'
+  ));
+});
+
+test('mergePaths joins separate paths with identical attributes', () => {
+  const output = optimize(svg('<path d="M2 20H4" fill="red"/><path d="M8 20H10" fill="red"/>'), ['mergePaths']);
+
+  assert.equal(output, svg('<path d="M2 20H4 M8 20H10" fill="red"/>'));
+});
+
+test('mergePaths leaves overlapping and arc paths alone', () => {
+  const overlapping = svg('<path d="M0 0L4 4"/><path d="M2 2L6 0"/>');
+  const arcs = svg('<path d="M10 10A2 2 0 0 0 12 12"/><path d="M20 20L22 22"/>');
+
+  assert.equal(optimize(overlapping, ['mergePaths']), overlapping);
+  assert.equal(optimize(arcs, ['mergePaths']), arcs);
+});
+
+test('mergePaths counts the implicit control points of S and T', () => {
+  // T reflects Q's control point (5 10) to (15 -10), so the curve reaches y = -8
+  const quadratic = svg('<path d="M0 0Q5 10 10 0T20 0"/><path d="M0 -8L20 -8"/>');
+  // S reflects C's second control point (10 10) to (10 -10)
+  const cubic = svg('<path d="M0 0C0 10 10 10 10 0S20 0 20 0"/><path d="M0 -8L12 -8"/>');
+
+  assert.equal(optimize(quadratic, ['mergePaths']), quadratic);
+  assert.equal(optimize(cubic, ['mergePaths']), cubic);
+});
+
+test('mergePaths leaves paths whose strokes overlap alone', () => {
+  // The geometry is 2 apart, but 4-wide strokes overlap; merged, the band would be painted once
+  const stroked = svg(
+    '<path d="M2 2H10" stroke="black" stroke-opacity="0.5" stroke-width="4"/>' +
+    '<path d="M2 4H10" stroke="black" stroke-opacity="0.5" stroke-width="4"/>'
+  );
+  const inherited = svg('<g stroke="black" stroke-width="4"><path d="M2 2H10"/><path d="M2 4H10"/></g>');
+
+  assert.equal(optimize(stroked, ['mergePaths']), stroked);
+  assert.equal(optimize(inherited, ['mergePaths']), inherited);
+});
+
+test('mergePaths still joins stroked paths far enough apart', () => {
+  const output = optimize(svg('<g stroke="black" stroke-width="2" stroke-linejoin="round"><path d="M2 2H10"/><path d="M2 8H10"/></g>'), ['mergePaths']);
+
+  assert.equal(output, svg('<g stroke="black" stroke-linejoin="round" stroke-width="2"><path d="M2 2H10 M2 8H10"/></g>'));
+});
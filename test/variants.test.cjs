@@ -0,0 +1,29 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin.cjs');
+
+const plugin = loadPlugin();
+const axes = plugin.loadVariantAxes();
+
+function derive(name, variantProperties = null) {
+  return JSON.parse(JSON.stringify(plugin.deriveVariant({ name, variantProperties }, axes, () => {})));
+}
+
+test('reads legacy weight property values with the baseline priority (bold, fill, regular)', () => {
+  assert.deepEqual(derive('x', { Weight: 'Line Bold' }), { weight: 'Bold', duotone: false });
+  assert.deepEqual(derive('x', { Weight: 'Bold Line' }), { weight: 'Bold', duotone: false });
+  assert.deepEqual(derive('x', { Weight: 'Line Fill' }), { weight: 'Fill', duotone: false });
+  assert.deepEqual(derive('x', { Weight: 'Bold Fill' }), { weight: 'Bold', duotone: false });
+  assert.deepEqual(derive('x', { Style: 'Line' }), { weight: 'Regular', duotone: false });
+});
+
+test('reads legacy weights from component names', () => {
+  assert.deepEqual(derive('arrow / Line Bold'), { weight: 'Bold', duotone: false });
+  assert.deepEqual(derive('arrow / Fill Duotone'), { weight: 'Fill', duotone: true });
+  assert.deepEqual(derive('arrow-line'), { weight: 'Regular', duotone: false });
+});
+
+test('exact values and aliases win over keywords', () => {
+  assert.deepEqual(derive('x', { Weight: 'bold', Duotone: 'yes' }), { weight: 'Bold', duotone: true });
+  assert.deepEqual(derive('x', { Weight: 'Regular', Duotone: 'False' }), { weight: 'Regular', duotone: false });
+});
@@ -0,0 +1,63 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadPlugin } = require('./load-plugin.cjs');
+
+const plugin = loadPlugin();
+
+// Reads a stored (uncompressed) ZIP back through its central directory
+function readZip(bytes) {
+  const buffer = Buffer.from(bytes);
+  const end = buffer.length - 22;
+  assert.equal(buffer.readUInt32LE(end), 0x06054b50, 'end of central directory signature');
+  const count = buffer.readUInt16LE(end + 10);
+  assert.equal(buffer.readUInt16LE(end + 8), count);
+  const centralSize = buffer.readUInt32LE(end + 12);
+  let offset = buffer.readUInt32LE(end + 16);
+  assert.equal(offset + centralSize, end);
+
+  const files = [];
+  for (let i = 0; i < count; i++) {
+    assert.equal(buffer.readUInt32LE(offset), 0x02014b50, 'central directory header signature');
+    const crc = buffer.readUInt32LE(offset + 16);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+
+    assert.equal(buffer.readUInt32LE(localOffset), 0x04034b50, 'local file header signature');
+    assert.equal(buffer.readUInt16LE(localOffset + 8), 0, 'stored');
+    assert.equal(buffer.readUInt32LE(localOffset + 14), crc);
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26);
+    files.push({ name, crc, data: buffer.subarray(dataStart, dataStart + size) });
+    offset += 46 + nameLength;
+  }
+  return files;
+}
+
+test('crc32 matches the standard check values', () => {
+  const bytes = text => Uint8Array.from(Buffer.from(text, 'utf8'));
+  assert.equal(plugin.crc32(bytes('')), 0);
+  assert.equal(plugin.crc32(bytes('123456789')), 0xcbf43926);
+  assert.equal(plugin.crc32(bytes('The quick brown fox jumps over the lazy dog')), 0x414fa339);
+});
+
+test('createZipArchive round-trips names, contents and checksums', () => {
+  const png = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+  const archive = plugin.createZipArchive([
+    { path: 'icons-export.json', content: '{"icons":[]}' },
+    { path: 'svg/regular/flèche.svg', content: '<svg viewBox="0 0 24 24"/>' },
+    { path: 'png/24/arrow@2x.png', content: png }
+  ], new Date(2024, 0, 15, 10, 30, 0));
+
+  const files = readZip(archive);
+  assert.deepEqual(files.map(file => file.name), ['icons-export.json', 'svg/regular/flèche.svg', 'png/24/arrow@2x.png']);
+  assert.equal(files[0].data.toString('utf8'), '{"icons":[]}');
+  assert.equal(files[1].data.toString('utf8'), '<svg viewBox="0 0 24 24"/>');
+  assert.deepEqual(Uint8Array.from(files[2].data), png);
+  files.forEach(file => assert.equal(file.crc, plugin.crc32(Uint8Array.from(file.data))));
+});
+
+test('createZipArchive rejects more entries than a ZIP without ZIP64 can list', () => {
+  const entries = Array.from({ length: 0x10000 }, (_, index) => ({ path: `${index}`, content: '' }));
+  assert.throws(() => plugin.createZipArchive(entries), /65535/);
+});